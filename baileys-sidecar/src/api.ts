@@ -0,0 +1,256 @@
+import express, { NextFunction, Request, RequestHandler, Response, Router } from 'express';
+import { z } from 'zod';
+import pino from 'pino';
+import { ApiScope, requireScope } from './auth.js';
+import { ApiError, ErrorCode, ErrorDetail } from './errors.js';
+import { RateLimitError } from './rateLimits.js';
+import { UploadField, removeUpload } from './uploads.js';
+import { ErrorResponse } from './schemas.js';
+import { replayIdempotentRequest } from './idempotency.js';
+import { WhatsAppSession } from './whatsapp.js';
+
+const logger = pino({ level: 'info' });
+// Check every JSON response against its route's schemas (tests, development); a mismatch answers 500
+const VALIDATE_RESPONSES = process.env.VALIDATE_RESPONSES === 'true';
+
+export type HttpMethod = 'get' | 'post' | 'delete';
+
+type Responses = Record<number, z.ZodType>;
+
+export interface RouteSpec<
+  P extends z.ZodType = z.ZodType<Request['params']>,
+  Q extends z.ZodType = z.ZodType<Request['query']>,
+  B extends z.ZodType = z.ZodType<any>,
+  R extends Responses = Responses,
+> {
+  summary: string;
+  description?: string;
+  scope?: ApiScope;
+  connected?: boolean; // NOT_CONNECTED unless the session's socket is open
+  upload?: { field: UploadField; accept: RequestHandler }; // multipart file field, also accepted as base64 in the body
+  params?: P;
+  query?: Q;
+  body?: B;
+  idempotent?: boolean; // accepts an Idempotency-Key header, see idempotency.ts
+  invalidCode?: ErrorCode; // request not matching the schemas: INVALID_QUERY for the query, INVALID_REQUEST otherwise
+  responses?: R; // JSON responses by status
+  content?: string; // content type of a non-JSON 200 response
+  errors?: ErrorCode[]; // besides the ones implied by the spec, see routeErrors()
+}
+
+export interface ApiRoute {
+  method: HttpMethod;
+  path: string;
+  spec: RouteSpec<z.ZodType, z.ZodType, z.ZodType, Responses>;
+}
+
+type ResponseBody<R extends Responses> = keyof R extends never ? unknown : z.input<R[keyof R]>;
+
+// Handlers get the parsed request and can only send the route's responses; thrown errors
+// (ApiError or not) go to handleErrors()
+export type RouteHandler<P extends z.ZodType, Q extends z.ZodType, B extends z.ZodType, R extends Responses> = (
+  req: Request<z.output<P>, ResponseBody<R>, z.output<B>, z.output<Q>>,
+  res: Response<ResponseBody<R>>,
+  next: NextFunction
+) => unknown;
+
+type RouteMethod = <
+  P extends z.ZodType = z.ZodType<Request['params']>,
+  Q extends z.ZodType = z.ZodType<Request['query']>,
+  B extends z.ZodType = z.ZodType<any>,
+  R extends Responses = {},
+>(
+  path: string,
+  spec: RouteSpec<P, Q, B, R>,
+  handler: RouteHandler<P, Q, B, R>
+) => void;
+
+// Express router recording each route's spec, for validation and for the OpenAPI document
+export class ApiRouter {
+  readonly router: Router = express.Router({ mergeParams: true });
+  readonly routes: ApiRoute[] = [];
+
+  // Public routes are served without an API key
+  constructor(readonly isPublic = false) {}
+
+  readonly get: RouteMethod = (path, spec, handler) => this.add('get', path, spec, handler as RequestHandler);
+  readonly post: RouteMethod = (path, spec, handler) => this.add('post', path, spec, handler as RequestHandler);
+  readonly delete: RouteMethod = (path, spec, handler) => this.add('delete', path, spec, handler as RequestHandler);
+
+  private add(method: HttpMethod, path: string, spec: ApiRoute['spec'], handler: RequestHandler) {
+    this.routes.push({ method, path, spec });
+
+    const middleware: RequestHandler[] = [];
+    if (VALIDATE_RESPONSES) {
+      middleware.push(checkResponses(spec, routeErrors(spec, this.isPublic)));
+    }
+    if (spec.scope) {
+      middleware.push(requireScope(spec.scope));
+    }
+    if (spec.connected) {
+      middleware.push(requireConnection);
+    }
+    if (spec.upload) {
+      middleware.push(spec.upload.accept);
+    }
+    middleware.push(validateRequest(spec));
+    if (spec.idempotent) {
+      middleware.push(replayIdempotentRequest);
+    }
+
+    this.router[method](path, ...middleware, (req: Request, res: Response, next: NextFunction) => {
+      Promise.resolve()
+        .then(() => handler(req, res, next))
+        .catch(next);
+    });
+  }
+}
+
+// Error codes a route may answer with: its own, plus those implied by authentication, validation and the spec
+export function routeErrors(spec: ApiRoute['spec'], isPublic: boolean): ErrorCode[] {
+  const codes = new Set<ErrorCode>(spec.errors);
+  if (!isPublic) {
+    codes.add('UNAUTHORIZED');
+  }
+  if (spec.scope) {
+    codes.add('FORBIDDEN');
+  }
+  if (spec.connected) {
+    codes.add('NOT_CONNECTED');
+  }
+  if (spec.invalidCode) {
+    codes.add(spec.invalidCode);
+  } else {
+    if (spec.params || spec.body) {
+      codes.add('INVALID_REQUEST');
+    }
+    if (spec.query) {
+      codes.add('INVALID_QUERY');
+    }
+  }
+  if (spec.idempotent) {
+    codes.add('INVALID_REQUEST');
+    codes.add('IDEMPOTENCY_KEY_IN_USE');
+    codes.add('IDEMPOTENCY_KEY_REUSED');
+  }
+  codes.add('INTERNAL_ERROR');
+  return Array.from(codes);
+}
+
+// Routes that query WhatsApp directly answer 503 while the session is not connected
+function requireConnection(req: Request, res: Response, next: NextFunction) {
+  const status = (res.locals.session as WhatsAppSession).getConnectionStatus();
+  if (status !== 'connected') {
+    return next(new ApiError('NOT_CONNECTED', `WhatsApp not connected. Status: ${status}`));
+  }
+  next();
+}
+
+// Custom checks (recipients, JIDs...) carry their own error code in the issue's params
+function issueCode(issue: z.core.$ZodIssue): ErrorCode | undefined {
+  return (issue as { params?: { code?: ErrorCode } }).params?.code;
+}
+
+// Parse params, query and body with the route's schemas, replacing them with the parsed values
+function validateRequest(spec: ApiRoute['spec']): RequestHandler {
+  const parts = [
+    { name: 'params', schema: spec.params, fallback: 'INVALID_REQUEST' },
+    { name: 'query', schema: spec.query, fallback: 'INVALID_QUERY' },
+    { name: 'body', schema: spec.body, fallback: 'INVALID_REQUEST' },
+  ] as const;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    for (const { name, schema, fallback } of parts) {
+      if (!schema) {
+        continue;
+      }
+
+      const result = schema.safeParse(req[name] ?? {});
+      if (!result.success) {
+        if (req.file) {
+          removeUpload(req.file.path);
+        }
+        const [first] = result.error.issues;
+        const details: ErrorDetail[] = result.error.issues.map(issue => ({
+          path: [name, ...issue.path].join('.'),
+          message: issue.message,
+        }));
+        const code = issueCode(first) ?? spec.invalidCode ?? fallback;
+        return next(new ApiError(code, `${details[0].path}: ${details[0].message}`, details));
+      }
+      Object.assign(req, { [name]: result.data });
+    }
+    next();
+  };
+}
+
+function checkResponses(spec: ApiRoute['spec'], codes: ErrorCode[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const json = res.json.bind(res);
+
+    res.json = ((body: unknown) => {
+      const isError = res.statusCode >= 400 && !spec.responses?.[res.statusCode];
+      const schema = isError ? ErrorResponse : spec.responses?.[res.statusCode];
+      const result = schema?.safeParse(body);
+      let problem = !schema
+        ? `no schema for status ${res.statusCode}`
+        : !result!.success
+          ? z.prettifyError(result!.error)
+          : null;
+      if (!problem && isError && !codes.includes((body as { code: ErrorCode }).code)) {
+        problem = `undocumented error code ${(body as { code: ErrorCode }).code}`;
+      }
+
+      if (problem) {
+        logger.error(`Response of ${req.method} ${req.originalUrl} does not match its schema: ${problem}`);
+        res.status(500);
+        return json({ success: false, code: 'INTERNAL_ERROR', error: `Response does not match its schema: ${problem}` });
+      }
+      return json(body);
+    }) as Response['json'];
+
+    next();
+  };
+}
+
+// After every route: an unknown path gets the JSON error shape, not Express's HTML page
+export function handleNotFound(req: Request, res: Response, next: NextFunction) {
+  next(new ApiError('NOT_FOUND', `No route for ${req.method} ${req.path}`));
+}
+
+function toApiError(error: any): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  // Raised by express.json() before any route runs
+  if (error?.type === 'entity.parse.failed') {
+    return new ApiError('INVALID_REQUEST', `Invalid JSON body: ${error.message}`);
+  }
+  if (error?.type === 'entity.too.large') {
+    return new ApiError('REQUEST_TOO_LARGE', `Request body exceeds ${error.limit} bytes`);
+  }
+  return new ApiError('INTERNAL_ERROR', error?.message || 'Internal error');
+}
+
+// Last middleware: every error becomes { success: false, code, error }
+export function handleErrors(error: any, req: Request, res: Response, next: NextFunction) {
+  // The response has started (a stream broke): let Express close the connection
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  const apiError = toApiError(error);
+  if (apiError.status >= 500) {
+    logger.error(`Error on ${req.method} ${req.originalUrl}: ${error?.message || error}`);
+  }
+  if (error instanceof RateLimitError) {
+    res.setHeader('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+  }
+
+  res.status(apiError.status).json({
+    success: false,
+    code: apiError.code,
+    error: apiError.message,
+    ...(apiError.details && { details: apiError.details }),
+  });
+}
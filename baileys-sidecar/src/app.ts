@@ -0,0 +1,16 @@
+import express from 'express';
+import { setupRoutes } from './routes.js';
+
+// Large enough for a base64-encoded audio or image upload (16 MB * 4/3); bigger files go multipart
+const JSON_BODY_LIMIT = process.env.JSON_BODY_LIMIT || '25mb';
+
+export function createApp() {
+  const app = express();
+
+  app.use(express.json({ limit: JSON_BODY_LIMIT }));
+  app.use(express.static('public'));
+
+  setupRoutes(app);
+
+  return app;
+}
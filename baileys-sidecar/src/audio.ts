@@ -0,0 +1,198 @@
+import { execFile } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import pino from 'pino';
+import { VoiceNote } from './transport.js';
+import { dataFile } from './storage.js';
+import { ApiError } from './errors.js';
+
+const logger = pino({ level: 'info' });
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFPROBE_PATH = process.env.FFPROBE_PATH || 'ffprobe';
+const WAVEFORM_BARS = 64; // number of bars WhatsApp draws for a voice note
+const WAVEFORM_SAMPLE_RATE = 8000; // Hz, plenty for an amplitude envelope
+const MAX_PCM_BYTES = 256 * 1024 * 1024;
+const MP3_CACHE_PATH = dataFile('mp3-cache');
+
+export type ConversionFormat = 'mp3' | 'wav';
+
+const CONVERSION_ARGS: Record<ConversionFormat, string[]> = {
+  mp3: ['-c:a', 'libmp3lame', '-b:a', '64k', '-f', 'mp3'],
+  wav: ['-ac', '1', '-ar', '16000', '-c:a', 'pcm_s16le', '-f', 'wav'], // 16 kHz mono is plenty for speech
+};
+
+// The file is not audio ffmpeg can read (no audio stream, truncated, unknown format...)
+export class AudioFormatError extends ApiError {
+  constructor(message: string) {
+    super('INVALID_AUDIO', message);
+    this.name = 'AudioFormatError';
+  }
+}
+
+export interface AudioInfo {
+  container: string;
+  codec: string;
+  channels: number;
+  seconds: number;
+}
+
+function run(binary: string, args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    execFile(binary, args, { encoding: 'buffer', maxBuffer: MAX_PCM_BYTES }, (error, stdout, stderr) => {
+      if (!error) {
+        return resolve(stdout);
+      }
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return reject(new Error(`${binary} not found, install ffmpeg or set FFMPEG_PATH/FFPROBE_PATH`));
+      }
+      const details = stderr.toString().trim().split('\n').pop() || error.message;
+      reject(new AudioFormatError(`Unreadable audio file: ${details}`));
+    });
+  });
+}
+
+// Detect container, codec, channel count and duration with ffprobe
+export async function probeAudio(filePath: string): Promise<AudioInfo> {
+  const output = await run(FFPROBE_PATH, [
+    '-v', 'error',
+    '-print_format', 'json',
+    '-show_format',
+    '-show_streams',
+    '-select_streams', 'a:0',
+    filePath,
+  ]);
+
+  const { format, streams } = JSON.parse(output.toString());
+  const stream = streams?.[0];
+  if (!stream) {
+    throw new AudioFormatError('File contains no audio stream');
+  }
+
+  const seconds = parseFloat(stream.duration ?? format?.duration);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new AudioFormatError('Could not determine audio duration');
+  }
+
+  return {
+    container: format?.format_name || 'unknown',
+    codec: stream.codec_name || 'unknown',
+    channels: stream.channels || 0,
+    seconds,
+  };
+}
+
+function isVoiceNoteReady(info: AudioInfo): boolean {
+  return info.container === 'ogg' && info.codec === 'opus' && info.channels === 1;
+}
+
+async function transcodeToOpus(inputPath: string): Promise<Buffer> {
+  const outputPath = path.join(os.tmpdir(), `voice-${crypto.randomUUID()}.ogg`);
+
+  try {
+    await run(FFMPEG_PATH, [
+      '-v', 'error',
+      '-y',
+      '-i', inputPath,
+      '-vn',
+      '-ac', '1',
+      '-ar', '48000',
+      '-c:a', 'libopus',
+      '-b:a', '32k',
+      '-application', 'voip',
+      '-f', 'ogg',
+      outputPath,
+    ]);
+    return fs.readFileSync(outputPath);
+  } finally {
+    fs.rmSync(outputPath, { force: true });
+  }
+}
+
+// Average amplitude per bar, scaled so the loudest bar is 100 (same shape WhatsApp clients produce)
+async function computeWaveform(inputPath: string): Promise<Uint8Array> {
+  const pcm = await run(FFMPEG_PATH, [
+    '-v', 'error',
+    '-i', inputPath,
+    '-vn',
+    '-ac', '1',
+    '-ar', String(WAVEFORM_SAMPLE_RATE),
+    '-f', 's16le',
+    '-',
+  ]);
+
+  const samples = Math.floor(pcm.length / 2);
+  const blockSize = Math.max(Math.floor(samples / WAVEFORM_BARS), 1);
+  const bars: number[] = [];
+
+  for (let bar = 0; bar < WAVEFORM_BARS; bar++) {
+    const start = bar * blockSize;
+    const end = Math.min(start + blockSize, samples);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      sum += Math.abs(pcm.readInt16LE(i * 2));
+    }
+    bars.push(end > start ? sum / (end - start) : 0);
+  }
+
+  const peak = Math.max(...bars);
+  return new Uint8Array(bars.map(value => (peak > 0 ? Math.floor((value / peak) * 100) : 0)));
+}
+
+// Turn any audio file ffmpeg understands into a mono OGG/Opus voice note with duration and waveform
+export async function prepareVoiceNote(inputPath: string): Promise<VoiceNote> {
+  const info = await probeAudio(inputPath);
+
+  let audio: Buffer;
+  if (isVoiceNoteReady(info)) {
+    audio = fs.readFileSync(inputPath);
+  } else {
+    logger.info(`Transcoding ${info.container}/${info.codec} (${info.channels}ch) audio to Opus voice note`);
+    audio = await transcodeToOpus(inputPath);
+  }
+
+  return {
+    audio,
+    seconds: Math.max(Math.round(info.seconds), 1),
+    waveform: await computeWaveform(inputPath),
+  };
+}
+
+function mp3CachePath(cacheKey: string): string {
+  return path.join(MP3_CACHE_PATH, `${cacheKey}.mp3`);
+}
+
+// MP3 copy for browsers that cannot play Opus, converted on first request and cached
+export async function cachedMp3(inputPath: string, cacheKey: string): Promise<string> {
+  const outputPath = mp3CachePath(cacheKey);
+  if (fs.existsSync(outputPath)) {
+    return outputPath;
+  }
+
+  fs.mkdirSync(MP3_CACHE_PATH, { recursive: true });
+  const tmpPath = `${outputPath}.${crypto.randomUUID()}.tmp`;
+  try {
+    await run(FFMPEG_PATH, ['-v', 'error', '-y', '-i', inputPath, '-vn', ...CONVERSION_ARGS.mp3, tmpPath]);
+    fs.renameSync(tmpPath, outputPath);
+  } finally {
+    fs.rmSync(tmpPath, { force: true });
+  }
+  return outputPath;
+}
+
+export function removeCachedMp3(cacheKey: string) {
+  fs.rmSync(mp3CachePath(cacheKey), { force: true });
+}
+
+// Convert to a temporary file, which the caller removes once done with it
+export async function convertAudio(inputPath: string, format: ConversionFormat): Promise<string> {
+  const outputPath = path.join(os.tmpdir(), `voice-${crypto.randomUUID()}.${format}`);
+  try {
+    await run(FFMPEG_PATH, ['-v', 'error', '-y', '-i', inputPath, '-vn', ...CONVERSION_ARGS[format], outputPath]);
+  } catch (error) {
+    fs.rmSync(outputPath, { force: true });
+    throw error;
+  }
+  return outputPath;
+}
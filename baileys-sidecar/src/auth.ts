@@ -0,0 +1,110 @@
+import { NextFunction, Request, Response } from 'express';
+import crypto from 'crypto';
+import pino from 'pino';
+
+const logger = pino({ level: 'info' });
+
+export type ApiScope = 'send' | 'messages:read' | 'voices:read' | 'voices:write' | 'download' | 'metrics' | 'admin';
+
+const KNOWN_SCOPES: ApiScope[] = ['send', 'messages:read', 'voices:read', 'voices:write', 'download', 'metrics', 'admin'];
+
+interface ApiKey {
+  digest: Buffer;
+  scopes: Set<ApiScope>;
+}
+
+function digest(key: string): Buffer {
+  return crypto.createHash('sha256').update(key).digest();
+}
+
+// Keys come from API_KEYS ("key1=send,voices:read;key2=admin").
+// The legacy single API_KEY is still honoured and gets full access.
+export function loadApiKeys(env: NodeJS.ProcessEnv = process.env): ApiKey[] {
+  const keys: ApiKey[] = [];
+
+  if (env.API_KEY) {
+    keys.push({ digest: digest(env.API_KEY), scopes: new Set<ApiScope>(['admin']) });
+  }
+
+  for (const entry of (env.API_KEYS || '').split(';')) {
+    if (!entry.trim()) {
+      continue;
+    }
+
+    const separator = entry.lastIndexOf('=');
+    const key = (separator === -1 ? entry : entry.slice(0, separator)).trim();
+    const scopes = (separator === -1 ? '' : entry.slice(separator + 1))
+      .split(',')
+      .map(scope => scope.trim())
+      .filter(Boolean);
+
+    const unknown = scopes.filter(scope => !KNOWN_SCOPES.includes(scope as ApiScope));
+    if (!key || scopes.length === 0 || unknown.length > 0) {
+      throw new Error(`Invalid API_KEYS entry (expected key=scope1,scope2; known scopes: ${KNOWN_SCOPES.join(', ')})`);
+    }
+
+    keys.push({ digest: digest(key), scopes: new Set(scopes as ApiScope[]) });
+  }
+
+  return keys;
+}
+
+// Compares against every configured key so timing does not reveal which one matched
+function findKey(keys: ApiKey[], provided: string): ApiKey | null {
+  const providedDigest = digest(provided);
+  let match: ApiKey | null = null;
+
+  for (const key of keys) {
+    if (crypto.timingSafeEqual(key.digest, providedDigest)) {
+      match = key;
+    }
+  }
+
+  return match;
+}
+
+// Rejects requests without a valid x-api-key header. With no key configured at all
+// the sidecar stays open (local development), as the Ktor API does.
+export function authenticate(keys: ApiKey[] = loadApiKeys()) {
+  if (keys.length === 0) {
+    logger.warn('⚠️ API_KEY / API_KEYS not configured! Sidecar routes are unprotected!');
+  }
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (keys.length === 0) {
+      res.locals.apiScopes = new Set<ApiScope>(['admin']);
+      return next();
+    }
+
+    const provided = req.headers['x-api-key'];
+    const key = typeof provided === 'string' && provided ? findKey(keys, provided) : null;
+
+    if (!key) {
+      return res.status(401).json({
+        success: false,
+        code: 'UNAUTHORIZED',
+        error: provided ? 'Invalid API key' : 'Missing x-api-key header',
+      });
+    }
+
+    res.locals.apiScopes = key.scopes;
+    next();
+  };
+}
+
+// Must run after authenticate(); 'admin' grants every scope
+export function requireScope(scope: ApiScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const scopes: Set<ApiScope> = res.locals.apiScopes || new Set();
+
+    if (!scopes.has(scope) && !scopes.has('admin')) {
+      return res.status(403).json({
+        success: false,
+        code: 'FORBIDDEN',
+        error: `API key lacks required scope: ${scope}`,
+      });
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,14 @@
+// Numeric settings read from the environment at startup. A malformed value stops the sidecar
+// instead of running with NaN, which no attempt counter or delay ever reaches.
+export function positiveInteger(name: string, fallback: number, env: NodeJS.ProcessEnv = process.env): number {
+  const value = env[name];
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${name} "${value}" (expected a positive integer)`);
+  }
+  return parsed;
+}
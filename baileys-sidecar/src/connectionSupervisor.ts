@@ -0,0 +1,256 @@
+import { BaileysEventMap, DisconnectReason } from '@whiskeysockets/baileys';
+import { Boom } from '@hapi/boom';
+import fs from 'fs';
+import pino from 'pino';
+import { WhatsAppTransport, TransportFactory } from './transport.js';
+
+const logger = pino({ level: 'info' });
+const RECONNECT_BASE_DELAY = parseInt(process.env.RECONNECT_DELAY_MS || '5000');
+const MAX_RECONNECT_DELAY = 60_000; // 1 minute max
+const MAX_EVENTS = 100;
+
+export type ConnectionStatus = 'connected' | 'connecting' | 'disconnected' | 'qr_pending' | 'logged_out';
+
+export const CONNECTION_STATUSES: ConnectionStatus[] = ['connected', 'connecting', 'disconnected', 'qr_pending', 'logged_out'];
+
+export type ConnectionEventType =
+  | 'connecting'
+  | 'qr'
+  | 'open'
+  | 'close'
+  | 'reconnect_scheduled'
+  | 'logged_out' // WhatsApp unlinked the device
+  | 'logout' // unlinked through POST /session/logout
+  | 'relink'
+  | 'stopped';
+
+export interface ConnectionEvent {
+  at: string;
+  type: ConnectionEventType;
+  status: ConnectionStatus; // after the event
+  statusCode?: number; // close: Baileys DisconnectReason
+  reason?: string;
+  attempt?: number;
+  delayMs?: number;
+}
+
+export interface SupervisorHooks {
+  // Attach the session's listeners to a new socket, through listen() so they are removed with it
+  attach(sock: WhatsAppTransport): void;
+  // A dropped connection will be retried after delayMs
+  reconnecting(attempt: number, delayMs: number): void;
+}
+
+// Owns a session's socket: creates it, tears it down (listeners included) before replacing it,
+// retries dropped connections with backoff and wipes the creds once the device is unlinked.
+//
+//   disconnected ─start─▶ connecting ─qr─▶ qr_pending ─open─▶ connected
+//        ▲                    ▲  │                                 │
+//        │ stop               │  └──────────── close ◀─────────────┘
+//        │                    └─ backoff ◀─┘  (loggedOut: ─▶ logged_out ─relink─▶ connecting)
+export class ConnectionSupervisor {
+  private sock: WhatsAppTransport | null = null;
+  private detach: (() => void)[] = [];
+  private status: ConnectionStatus = 'disconnected';
+  private currentQR: string | null = null;
+  private reconnectAttempts = 0;
+  private lastConnectedAt: Date | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+  private readonly events: ConnectionEvent[] = [];
+
+  constructor(
+    readonly sessionId: string,
+    readonly authPath: string,
+    private readonly transportFactory: TransportFactory,
+    private readonly hooks: SupervisorHooks
+  ) {}
+
+  async start() {
+    this.stopped = false;
+    const sock = await this.transportFactory(this.sessionId, this.authPath);
+    if (this.stopped) {
+      sock.end();
+      return;
+    }
+
+    this.sock = sock;
+    this.listen('connection.update', update => this.onConnectionUpdate(update));
+    this.hooks.attach(sock);
+  }
+
+  // Listen on the current socket until it is torn down
+  listen<T extends keyof BaileysEventMap>(event: T, listener: (arg: BaileysEventMap[T]) => void) {
+    const sock = this.sock;
+    if (!sock) {
+      return;
+    }
+    sock.ev.on(event, listener);
+    this.detach.push(() => sock.ev.off(event, listener));
+  }
+
+  private onConnectionUpdate(update: BaileysEventMap['connection.update']) {
+    const { connection, lastDisconnect, qr } = update;
+    logger.info(`[${this.sessionId}] Connection update:`, JSON.stringify(update, null, 2));
+
+    if (qr) {
+      this.currentQR = qr;
+      this.record('qr_pending', 'qr');
+      logger.info(`[${this.sessionId}] QR Code received, scan with WhatsApp app`);
+    }
+
+    if (connection === 'open') {
+      this.currentQR = null;
+      this.reconnectAttempts = 0;
+      this.lastConnectedAt = new Date();
+      this.record('connected', 'open');
+      logger.info(`[${this.sessionId}] WhatsApp connection opened successfully`);
+    } else if (connection === 'connecting') {
+      this.record('connecting', 'connecting');
+      logger.info(`[${this.sessionId}] Connecting to WhatsApp...`);
+    } else if (connection === 'close') {
+      const error = lastDisconnect?.error as Boom | undefined;
+      this.onClose(error?.output?.statusCode, error?.message);
+    }
+  }
+
+  private onClose(statusCode: number | undefined, reason: string | undefined) {
+    // The listeners still registered for this update have been copied by the emitter and still get it
+    this.teardown();
+    this.record('disconnected', 'close', { statusCode, reason });
+
+    if (statusCode === DisconnectReason.loggedOut) {
+      logger.warn(`[${this.sessionId}] Logged out by WhatsApp, removing the stale creds`);
+      this.wipeCreds();
+      this.record('logged_out', 'logged_out');
+      return;
+    }
+
+    logger.info(`[${this.sessionId}] Connection closed (status: ${statusCode}). Reconnecting: ${!this.stopped}`);
+    if (!this.stopped) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect() {
+    this.reconnectAttempts++;
+    const delayMs = Math.min(RECONNECT_BASE_DELAY * Math.pow(2, this.reconnectAttempts - 1), MAX_RECONNECT_DELAY);
+    logger.info(`[${this.sessionId}] Reconnecting in ${delayMs}ms (attempt ${this.reconnectAttempts})...`);
+    this.record('connecting', 'reconnect_scheduled', { attempt: this.reconnectAttempts, delayMs });
+    this.hooks.reconnecting(this.reconnectAttempts, delayMs);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.start().catch(error => {
+        logger.error(`[${this.sessionId}] Reconnect failed: ${error.message}`);
+        this.record('disconnected', 'close', { reason: error.message });
+        if (!this.stopped) {
+          this.scheduleReconnect();
+        }
+      });
+    }, delayMs);
+    this.reconnectTimer.unref();
+  }
+
+  // Remove every listener from the socket and close it; its late events are ignored
+  private teardown() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.detachListeners();
+    this.sock?.end();
+    this.sock = null;
+    this.currentQR = null;
+  }
+
+  private wipeCreds() {
+    fs.rmSync(this.authPath, { recursive: true, force: true });
+  }
+
+  // Unlink the device from the phone (when connected) and remove the creds; the session stays
+  // logged out until relinked
+  async logout() {
+    this.stopped = true;
+    const sock = this.sock;
+    const connected = this.status === 'connected';
+    this.detachListeners();
+
+    if (sock && connected) {
+      try {
+        await sock.logout();
+      } catch (error: any) {
+        logger.warn(`[${this.sessionId}] Logout request failed, removing the creds anyway: ${error.message}`);
+      }
+    }
+    this.teardown();
+    this.wipeCreds();
+    this.reconnectAttempts = 0;
+    this.record('logged_out', 'logout');
+    logger.info(`[${this.sessionId}] Logged out`);
+  }
+
+  // Start over with a new QR code, whatever state the session is in
+  async relink() {
+    await this.logout();
+    this.record('connecting', 'relink');
+    await this.start();
+  }
+
+  // Close the socket for good (no reconnect); with flush, pending creds are written first
+  async stop(flush = false) {
+    this.stopped = true;
+    const sock = this.sock;
+    this.detachListeners();
+
+    if (sock && flush) {
+      try {
+        await sock.flushCreds();
+      } catch (error: any) {
+        logger.error(`[${this.sessionId}] Failed to save creds: ${error.message}`);
+      }
+    }
+    this.teardown();
+    this.record('disconnected', 'stopped');
+  }
+
+  // No more events from the socket (a logout or an end emits a close that must not reconnect)
+  private detachListeners() {
+    for (const detach of this.detach.splice(0)) {
+      detach();
+    }
+  }
+
+  private record(status: ConnectionStatus, type: ConnectionEventType, details: Partial<ConnectionEvent> = {}) {
+    this.status = status;
+    this.events.push({ at: new Date().toISOString(), type, status, ...details });
+    if (this.events.length > MAX_EVENTS) {
+      this.events.shift();
+    }
+  }
+
+  getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  getCurrentQR(): string | null {
+    return this.currentQR;
+  }
+
+  getSocket(): WhatsAppTransport | null {
+    return this.sock;
+  }
+
+  getLastConnectedAt(): Date | null {
+    return this.lastConnectedAt;
+  }
+
+  getReconnectAttempts(): number {
+    return this.reconnectAttempts;
+  }
+
+  // Oldest first, the last MAX_EVENTS
+  getEvents(): ConnectionEvent[] {
+    return [...this.events];
+  }
+}
@@ -0,0 +1,271 @@
+import {
+  WAMessage,
+  getContentType,
+  isLidUser,
+  isPnUser,
+  jidNormalizedUser,
+  normalizeMessageContent,
+  toNumber,
+} from '@whiskeysockets/baileys';
+import pino from 'pino';
+import { onWhatsAppEvent } from './whatsapp.js';
+import { onSessionDeleted } from './sessions.js';
+import { dataFile, readJsonFile, writeJsonFile } from './storage.js';
+
+const logger = pino({ level: 'info' });
+const ACTIVITY_FILE = dataFile('contact-activity.json');
+// Rolling windows reported for each contact; daily counts older than the longest one are dropped
+export const ACTIVITY_WINDOWS = [7, 30, 90];
+const RETENTION_DAYS = Math.max(...ACTIVITY_WINDOWS);
+// Message ids remembered per contact, so a message delivered twice is counted once
+const RECENT_IDS = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ACTIVITY_TYPES = ['text', 'voice', 'audio', 'image', 'video', 'document', 'sticker', 'other'] as const;
+export type ActivityType = (typeof ACTIVITY_TYPES)[number];
+export type ActivityDirection = 'inbound' | 'outbound';
+
+interface DayActivity {
+  inbound: Partial<Record<ActivityType, number>>;
+  outbound: Partial<Record<ActivityType, number>>;
+  voiceSeconds: Record<ActivityDirection, number>;
+}
+
+// What we exchanged with a one-to-one contact of a session
+interface ContactActivity {
+  sessionId: string;
+  jid: string; // phone number JID once WhatsApp has given one, else the LID
+  lid?: string | null; // LID the contact also writes from
+  name: string | null;
+  lastInboundAt: number | null; // unix seconds
+  lastOutboundAt: number | null;
+  days: Record<string, DayActivity>; // UTC day (YYYY-MM-DD) -> counts
+  recentIds: string[];
+}
+
+export interface DirectionActivity {
+  count: number;
+  byType: Partial<Record<ActivityType, number>>;
+  voiceMinutes: number;
+}
+
+export interface ActivityWindow {
+  days: number;
+  inbound: DirectionActivity;
+  outbound: DirectionActivity;
+}
+
+export interface ContactActivityView {
+  jid: string;
+  name: string | null;
+  lastInboundAt: string | null;
+  lastOutboundAt: string | null;
+  windows: ActivityWindow[];
+}
+
+const contacts = new Map<string, ContactActivity>( // "<sessionId>|<contact JID>"
+  readJsonFile<ContactActivity[]>(ACTIVITY_FILE, []).map(contact => [`${contact.sessionId}|${contact.jid}`, contact])
+);
+
+function dayOf(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function save() {
+  const oldest = dayOf(new Date(Date.now() - RETENTION_DAYS * DAY_MS));
+  for (const contact of contacts.values()) {
+    for (const day of Object.keys(contact.days)) {
+      if (day < oldest) {
+        delete contact.days[day];
+      }
+    }
+  }
+  writeJsonFile(ACTIVITY_FILE, Array.from(contacts.values()));
+}
+
+// Groups, broadcasts and newsletters are not contacts. Chats addressed by LID carry the phone
+// number in `remoteJidAlt` when WhatsApp shares it.
+function contactJids(message: WAMessage): { pn: string | null; lid: string | null } {
+  const jids = [message.key.remoteJid, message.key.remoteJidAlt].filter((jid): jid is string => !!jid);
+  const pn = jids.find(isPnUser);
+  const lid = jids.find(isLidUser);
+  return { pn: pn ? jidNormalizedUser(pn) : null, lid: lid ? jidNormalizedUser(lid) : null };
+}
+
+function emptyContact(sessionId: string, jid: string): ContactActivity {
+  return { sessionId, jid, lid: null, name: null, lastInboundAt: null, lastOutboundAt: null, days: {}, recentIds: [] };
+}
+
+function mergeInto(contact: ContactActivity, other: ContactActivity) {
+  const latest = (a: number | null, b: number | null) => (a === null ? b : b === null ? a : Math.max(a, b));
+  contact.lastInboundAt = latest(contact.lastInboundAt, other.lastInboundAt);
+  contact.lastOutboundAt = latest(contact.lastOutboundAt, other.lastOutboundAt);
+  contact.name = contact.name || other.name;
+  contact.recentIds = Array.from(new Set([...other.recentIds, ...contact.recentIds])).slice(-RECENT_IDS);
+  for (const [day, counts] of Object.entries(other.days)) {
+    const merged = (contact.days[day] ??= { inbound: {}, outbound: {}, voiceSeconds: { inbound: 0, outbound: 0 } });
+    for (const direction of ['inbound', 'outbound'] as const) {
+      for (const [type, n] of Object.entries(counts[direction]) as [ActivityType, number][]) {
+        merged[direction][type] = (merged[direction][type] ?? 0) + n;
+      }
+      merged.voiceSeconds[direction] += counts.voiceSeconds[direction];
+    }
+  }
+}
+
+// The contact a message counts for. Activity is kept under the phone number: what was recorded
+// under the LID before WhatsApp gave the number is merged into it, and later messages addressed
+// by that LID alone count for the same contact.
+function contactFor(sessionId: string, message: WAMessage): ContactActivity | null {
+  const { pn, lid } = contactJids(message);
+  if (!pn) {
+    if (!lid) {
+      return null;
+    }
+    const known = Array.from(contacts.values()).find(contact => contact.sessionId === sessionId && contact.lid === lid);
+    return known || contacts.get(`${sessionId}|${lid}`) || emptyContact(sessionId, lid);
+  }
+
+  const contact = contacts.get(`${sessionId}|${pn}`) || emptyContact(sessionId, pn);
+  if (lid) {
+    const byLid = contacts.get(`${sessionId}|${lid}`);
+    if (byLid) {
+      mergeInto(contact, byLid);
+      contacts.delete(`${sessionId}|${lid}`);
+    }
+    contact.lid = lid;
+  }
+  return contact;
+}
+
+function activityType(message: WAMessage): ActivityType | null {
+  const content = normalizeMessageContent(message.message);
+  switch (getContentType(content)) {
+    case undefined:
+    case 'protocolMessage': // edits, revocations
+    case 'reactionMessage':
+      return null;
+    case 'conversation':
+    case 'extendedTextMessage':
+      return 'text';
+    case 'audioMessage':
+      return content?.audioMessage?.ptt ? 'voice' : 'audio';
+    case 'imageMessage':
+      return 'image';
+    case 'videoMessage':
+    case 'ptvMessage':
+      return 'video';
+    case 'documentMessage':
+      return 'document';
+    case 'stickerMessage':
+      return 'sticker';
+    default:
+      return 'other';
+  }
+}
+
+function record(sessionId: string, message: WAMessage): boolean {
+  const type = activityType(message);
+  const contact = type && message.key.id ? contactFor(sessionId, message) : null;
+  if (!type || !contact) {
+    return false;
+  }
+
+  contacts.set(`${sessionId}|${contact.jid}`, contact);
+  const messageId = `${message.key.fromMe ? 1 : 0}|${message.key.id}`;
+  if (contact.recentIds.includes(messageId)) {
+    return false;
+  }
+  contact.recentIds = [...contact.recentIds, messageId].slice(-RECENT_IDS);
+
+  const timestamp = toNumber(message.messageTimestamp) || Math.floor(Date.now() / 1000);
+  const direction: ActivityDirection = message.key.fromMe ? 'outbound' : 'inbound';
+  if (direction === 'inbound') {
+    contact.lastInboundAt = Math.max(contact.lastInboundAt ?? 0, timestamp);
+    contact.name = message.pushName || contact.name;
+  } else {
+    contact.lastOutboundAt = Math.max(contact.lastOutboundAt ?? 0, timestamp);
+  }
+
+  const day = dayOf(new Date(timestamp * 1000));
+  const counts = (contact.days[day] ??= { inbound: {}, outbound: {}, voiceSeconds: { inbound: 0, outbound: 0 } });
+  counts[direction][type] = (counts[direction][type] ?? 0) + 1;
+  if (type === 'voice') {
+    counts.voiceSeconds[direction] += normalizeMessageContent(message.message)?.audioMessage?.seconds ?? 0;
+  }
+
+  return true;
+}
+
+function sumDirection(days: DayActivity[], direction: ActivityDirection): DirectionActivity {
+  const byType: Partial<Record<ActivityType, number>> = {};
+  let count = 0;
+  let voiceSeconds = 0;
+  for (const day of days) {
+    for (const [type, n] of Object.entries(day[direction]) as [ActivityType, number][]) {
+      byType[type] = (byType[type] ?? 0) + n;
+      count += n;
+    }
+    voiceSeconds += day.voiceSeconds[direction];
+  }
+  return { count, byType, voiceMinutes: Math.round(voiceSeconds / 6) / 10 };
+}
+
+function toView(contact: ContactActivity, now: number): ContactActivityView {
+  const iso = (seconds: number | null) => (seconds ? new Date(seconds * 1000).toISOString() : null);
+  return {
+    jid: contact.jid,
+    name: contact.name,
+    lastInboundAt: iso(contact.lastInboundAt),
+    lastOutboundAt: iso(contact.lastOutboundAt),
+    windows: ACTIVITY_WINDOWS.map(days => {
+      // The window ends today and spans `days` UTC days
+      const since = dayOf(new Date(now - (days - 1) * DAY_MS));
+      const inWindow = Object.entries(contact.days)
+        .filter(([day]) => day >= since)
+        .map(([, counts]) => counts);
+      return { days, inbound: sumDirection(inWindow, 'inbound'), outbound: sumDirection(inWindow, 'outbound') };
+    }),
+  };
+}
+
+// Contacts the session exchanged messages with, longest without a message from us first.
+// notContactedDays keeps those we have not written to in that many days (or ever).
+export function getContactActivity(sessionId: string, options: { notContactedDays?: number } = {}): ContactActivityView[] {
+  const now = Date.now();
+  const cutoff = options.notContactedDays === undefined ? null : (now - options.notContactedDays * DAY_MS) / 1000;
+
+  return Array.from(contacts.values())
+    .filter(contact => contact.sessionId === sessionId)
+    .filter(contact => cutoff === null || (contact.lastOutboundAt ?? 0) < cutoff)
+    .sort((a, b) => (a.lastOutboundAt ?? 0) - (b.lastOutboundAt ?? 0) || (b.lastInboundAt ?? 0) - (a.lastInboundAt ?? 0))
+    .map(contact => toView(contact, now));
+}
+
+function forgetSession(sessionId: string) {
+  for (const [id, contact] of contacts) {
+    if (contact.sessionId === sessionId) {
+      contacts.delete(id);
+    }
+  }
+  save();
+}
+
+// Counts every message seen live, sent from this device, another linked device or received
+export function initializeContactActivity() {
+  onSessionDeleted(forgetSession);
+
+  onWhatsAppEvent('messages.upsert', ({ messages }, session) => {
+    let recorded = 0;
+    for (const message of messages) {
+      if (record(session.id, message)) {
+        recorded++;
+      }
+    }
+    if (recorded > 0) {
+      save();
+    }
+  });
+
+  logger.info(`Tracking activity of ${contacts.size} contact(s)`);
+}
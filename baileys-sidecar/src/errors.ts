@@ -0,0 +1,74 @@
+// Every error the API answers with: { success: false, code, error }, under the code's status.
+// Clients branch on the code; the message is for humans and may change.
+export const ERROR_STATUS = {
+  INVALID_REQUEST: 400, // body does not match the route's schema, or is not JSON
+  INVALID_QUERY: 400,
+  INVALID_JID: 400,
+  INVALID_RECIPIENT: 400,
+  INVALID_NUMBERS: 400,
+  INVALID_SCHEDULE: 400,
+  INVALID_SESSION_ID: 400,
+  INVALID_BASE64: 400,
+  INVALID_UPLOAD: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  PATH_NOT_ALLOWED: 403,
+  NOT_FOUND: 404, // no route for the method and path
+  SESSION_NOT_FOUND: 404,
+  MESSAGE_NOT_FOUND: 404,
+  SCHEDULE_NOT_FOUND: 404,
+  JOB_NOT_FOUND: 404,
+  CHAT_NOT_FOUND: 404,
+  VOICE_NOT_FOUND: 404,
+  AUDIO_NOT_FOUND: 404,
+  MEDIA_NOT_FOUND: 404, // the upload of an image, video or document to queue is missing
+  QR_NOT_AVAILABLE: 404,
+  SESSION_EXISTS: 409,
+  SESSION_PROTECTED: 409,
+  INVALID_SCHEDULE_STATE: 409,
+  INVALID_JOB_STATE: 409,
+  DOWNLOAD_IN_PROGRESS: 409,
+  IDEMPOTENCY_KEY_IN_USE: 409, // the first request under the key has not been answered yet
+  REQUEST_TOO_LARGE: 413,
+  AUDIO_TOO_LARGE: 413,
+  FILE_TOO_LARGE: 413,
+  UNSUPPORTED_MEDIA: 415,
+  INVALID_AUDIO: 422,
+  RECIPIENT_NOT_ON_WHATSAPP: 422,
+  IDEMPOTENCY_KEY_REUSED: 422, // the key was answered for a different request
+  RATE_LIMITED: 429,
+  INTERNAL_ERROR: 500,
+  SEND_FAILED: 502, // WhatsApp did not take the message
+  WHATSAPP_ERROR: 502, // a WhatsApp query failed
+  NOT_CONNECTED: 503,
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_STATUS;
+
+export const ERROR_CODES = Object.keys(ERROR_STATUS) as ErrorCode[];
+
+// A validation failure on one field of the request
+export interface ErrorDetail {
+  path: string; // e.g. "body.to"
+  message: string;
+}
+
+// Rejected request; the central error handler turns it into the response
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(readonly code: ErrorCode, message: string, readonly details?: ErrorDetail[]) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = ERROR_STATUS[code];
+  }
+}
+
+// An unexpected failure (socket closed mid-request, WhatsApp timeout...) reported under `code`;
+// errors that already carry a code keep it
+export function asApiError(error: unknown, code: ErrorCode): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  return new ApiError(code, error instanceof Error ? error.message : String(error));
+}
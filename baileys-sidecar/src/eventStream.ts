@@ -0,0 +1,100 @@
+import { Request, Response } from 'express';
+import pino from 'pino';
+import QRCode from 'qrcode';
+import { WhatsAppSession, onReconnect, onWhatsAppEvent } from './whatsapp.js';
+import { onDownloadProgress } from './voiceDownloader.js';
+import { ApiScope } from './auth.js';
+
+const logger = pino({ level: 'info' });
+const HEARTBEAT_INTERVAL = 25_000; // keeps proxies from closing idle streams
+
+interface StreamClient {
+  res: Response;
+  sessionId: string;
+  canSeeQR: boolean;
+}
+
+const clients = new Set<StreamClient>();
+
+function write(client: StreamClient, event: string, data: unknown) {
+  client.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// sessionId null: sent to every client
+function broadcast(sessionId: string | null, event: string, data: unknown) {
+  for (const client of clients) {
+    if (sessionId === null || client.sessionId === sessionId) {
+      write(client, event, data);
+    }
+  }
+}
+
+function qrDataUrl(qr: string): Promise<string> {
+  return QRCode.toDataURL(qr, { width: 400, margin: 2 });
+}
+
+async function sendQR(session: WhatsAppSession, qr: string) {
+  try {
+    const image = await qrDataUrl(qr);
+    for (const client of clients) {
+      if (client.sessionId === session.id && client.canSeeQR) {
+        write(client, 'qr', { sessionId: session.id, qr, image });
+      }
+    }
+  } catch (error: any) {
+    logger.error(`Error rendering QR code for stream: ${error.message}`);
+  }
+}
+
+export function initializeEventStream() {
+  onWhatsAppEvent('connection.update', ({ connection, qr }, session) => {
+    if (connection || qr) {
+      broadcast(session.id, 'status', { sessionId: session.id, connection: connection ?? null, status: session.getConnectionStatus() });
+    }
+    if (qr) {
+      void sendQR(session, qr);
+    }
+  });
+
+  onReconnect(({ session, attempt, delayMs }) => {
+    broadcast(session.id, 'reconnect', { sessionId: session.id, attempt, delayMs });
+  });
+
+  onDownloadProgress(job => {
+    broadcast(job.sessionId, 'download.progress', job);
+  });
+}
+
+// Server-Sent Events for one session. The current status (and QR code, for admin keys)
+// is sent right away so clients never need to poll.
+export async function streamEvents(req: Request, res: Response, session: WhatsAppSession) {
+  const scopes: Set<ApiScope> = res.locals.apiScopes || new Set();
+  const client: StreamClient = { res, sessionId: session.id, canSeeQR: scopes.has('admin') };
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  clients.add(client);
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+  heartbeat.unref();
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(client);
+  });
+
+  write(client, 'status', { sessionId: session.id, connection: null, status: session.getConnectionStatus() });
+
+  const qr = session.getCurrentQR();
+  if (qr && client.canSeeQR) {
+    try {
+      write(client, 'qr', { sessionId: session.id, qr, image: await qrDataUrl(qr) });
+    } catch (error: any) {
+      logger.error(`Error rendering QR code for stream: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import path from 'path';
+import { WhatsAppSession } from './whatsapp.js';
+import { listSessions } from './sessions.js';
+
+// Below this much free space on the voices volume, incoming voice notes may fail to save
+const MIN_FREE_BYTES = parseInt(process.env.HEALTH_MIN_FREE_MB || '100') * 1024 * 1024;
+
+export interface SessionReadiness {
+  id: string;
+  ready: boolean;
+  status: string;
+  lastConnectedAt: string | null;
+  secondsSinceConnected: number | null; // since the last successful connection
+  reconnectAttempts: number;
+  authWritable: boolean;
+  voicesFreeBytes: number | null; // null when the volume cannot be inspected
+  problems: string[];
+}
+
+// Creds are written on every key update: a read-only auth directory breaks the session on the next change.
+// Before the first connection the directory may not exist yet, in which case its parent must be writable.
+async function isWritable(dir: string): Promise<boolean> {
+  try {
+    await fs.promises.access(dir, fs.constants.W_OK);
+    return true;
+  } catch (error: any) {
+    if (error.code === 'ENOENT' && path.dirname(dir) !== dir) {
+      return isWritable(path.dirname(dir));
+    }
+    return false;
+  }
+}
+
+async function freeBytes(dir: string): Promise<number | null> {
+  try {
+    const stats = await fs.promises.statfs(dir);
+    return stats.bavail * stats.bsize;
+  } catch {
+    return null;
+  }
+}
+
+async function checkSession(session: WhatsAppSession): Promise<SessionReadiness> {
+  const status = session.getConnectionStatus();
+  const lastConnectedAt = session.getLastConnectedAt();
+  const authWritable = await isWritable(session.authPath);
+  const voicesFreeBytes = await freeBytes(session.voicesPath);
+
+  const problems: string[] = [];
+  if (status !== 'connected') {
+    problems.push(`WhatsApp is ${status}`);
+  }
+  if (!authWritable) {
+    problems.push(`Auth directory is not writable: ${session.authPath}`);
+  }
+  if (voicesFreeBytes !== null && voicesFreeBytes < MIN_FREE_BYTES) {
+    problems.push(`Low disk space for voices: ${Math.floor(voicesFreeBytes / 1024 / 1024)} MB free`);
+  }
+
+  return {
+    id: session.id,
+    ready: problems.length === 0,
+    status,
+    lastConnectedAt: lastConnectedAt?.toISOString() ?? null,
+    secondsSinceConnected: lastConnectedAt ? Math.floor((Date.now() - lastConnectedAt.getTime()) / 1000) : null,
+    reconnectAttempts: session.getReconnectAttempts(),
+    authWritable,
+    voicesFreeBytes,
+    problems,
+  };
+}
+
+// Ready to send: every session (or the one asked for) is connected and can persist creds and voices
+export async function checkReadiness(sessions: WhatsAppSession[] = listSessions()) {
+  const checks = await Promise.all(sessions.map(checkSession));
+  return { ready: checks.every(check => check.ready), sessions: checks };
+}
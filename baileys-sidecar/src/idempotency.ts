@@ -0,0 +1,149 @@
+import { NextFunction, Request, Response } from 'express';
+import crypto from 'crypto';
+import fs from 'fs';
+import pino from 'pino';
+import { dataFile, readJsonFile, writeJsonFile } from './storage.js';
+import { ApiError } from './errors.js';
+import { removeUpload } from './uploads.js';
+import { WhatsAppSession } from './whatsapp.js';
+import { onSessionDeleted } from './sessions.js';
+
+const logger = pino({ level: 'info' });
+const KEYS_FILE = dataFile('idempotency-keys.json');
+const MAX_KEY_LENGTH = 255;
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// A send answered under a key: repeating the key within the window replays this response
+interface IdempotentResponse {
+  sessionId: string;
+  key: string;
+  fingerprint: string; // hash of the route and request, to reject the key on another payload
+  status: number;
+  body: unknown;
+  createdAt: string;
+}
+
+export function loadIdempotencyWindowMs(env: NodeJS.ProcessEnv = process.env): number {
+  const hours = Number(env.IDEMPOTENCY_WINDOW_HOURS || '24');
+  if (!Number.isFinite(hours) || hours <= 0) {
+    throw new Error(`Invalid IDEMPOTENCY_WINDOW_HOURS "${env.IDEMPOTENCY_WINDOW_HOURS}" (expected a number of hours)`);
+  }
+  return hours * 60 * 60 * 1000;
+}
+
+let windowMs = loadIdempotencyWindowMs();
+let responses = new Map<string, IdempotentResponse>(); // "<sessionId>|<key>"
+const inFlight = new Set<string>();
+
+function isExpired(response: IdempotentResponse, now = Date.now()): boolean {
+  return new Date(response.createdAt).getTime() <= now - windowMs;
+}
+
+function save() {
+  for (const [id, response] of responses) {
+    if (isExpired(response)) {
+      responses.delete(id);
+    }
+  }
+  writeJsonFile(KEYS_FILE, Array.from(responses.values()));
+}
+
+// Uploads are hashed by content, so a retried multipart request matches the first one
+function fingerprint(req: Request): string {
+  const hash = crypto.createHash('sha256').update(JSON.stringify([req.method, req.route.path, req.body]));
+  if (req.file) {
+    hash.update(fs.readFileSync(req.file.path));
+  }
+  return hash.digest('hex');
+}
+
+// Runs after validation: a key seen within the window replays the original response instead of
+// sending again. Only successful responses are kept, so a failed send can be retried under its key.
+export function replayIdempotentRequest(req: Request, res: Response, next: NextFunction) {
+  const key = req.get(IDEMPOTENCY_HEADER);
+  if (key === undefined) {
+    return next();
+  }
+
+  const discardUpload = () => {
+    if (req.file) {
+      removeUpload(req.file.path);
+    }
+  };
+
+  if (!key || key.length > MAX_KEY_LENGTH) {
+    discardUpload();
+    return next(new ApiError('INVALID_REQUEST', `${IDEMPOTENCY_HEADER} must be 1 to ${MAX_KEY_LENGTH} characters`));
+  }
+
+  const sessionId = (res.locals.session as WhatsAppSession).id;
+  const id = `${sessionId}|${key}`;
+  const requestFingerprint = fingerprint(req);
+  const previous = responses.get(id);
+
+  if (previous && !isExpired(previous)) {
+    discardUpload();
+    if (previous.fingerprint !== requestFingerprint) {
+      return next(
+        new ApiError('IDEMPOTENCY_KEY_REUSED', `${IDEMPOTENCY_HEADER} ${key} was already used for a different request`)
+      );
+    }
+    logger.info(`Replaying the response to ${IDEMPOTENCY_HEADER} ${key} (session ${sessionId})`);
+    res.setHeader('Idempotent-Replayed', 'true');
+    return res.status(previous.status).json(previous.body);
+  }
+
+  if (inFlight.has(id)) {
+    discardUpload();
+    return next(new ApiError('IDEMPOTENCY_KEY_IN_USE', `A request with ${IDEMPOTENCY_HEADER} ${key} is still in progress`));
+  }
+
+  // Held until the send answers, even when the client gave up waiting: its retry must not send again
+  inFlight.add(id);
+
+  // Stored once the response went through the route's response check, which may turn it into a 500
+  const json = res.json.bind(res);
+  res.json = ((body: unknown) => {
+    inFlight.delete(id);
+    const sent = json(body);
+    if (res.statusCode >= 200 && res.statusCode < 300) {
+      responses.set(id, {
+        sessionId,
+        key,
+        fingerprint: requestFingerprint,
+        status: res.statusCode,
+        body,
+        createdAt: new Date().toISOString(),
+      });
+      save();
+    }
+    return sent;
+  }) as Response['json'];
+
+  next();
+}
+
+// Keys of a deleted session would replay its responses if a session of the same id is created
+function dropSessionKeys(sessionId: string) {
+  for (const [id, response] of responses) {
+    if (response.sessionId === sessionId) {
+      responses.delete(id);
+    }
+  }
+  save();
+}
+
+onSessionDeleted(dropSessionKeys);
+
+// Loads the keys answered before a restart; tests pass their own window
+export function initializeIdempotency(window = loadIdempotencyWindowMs()) {
+  windowMs = window;
+  responses = new Map(
+    readJsonFile<IdempotentResponse[]>(KEYS_FILE, [])
+      .filter(response => !isExpired(response))
+      .map(response => [`${response.sessionId}|${response.key}`, response])
+  );
+  inFlight.clear();
+  logger.info(`Loaded ${responses.size} idempotency key(s)`);
+}
@@ -1,25 +1,51 @@
-import express from 'express';
-import { setupRoutes } from './routes.js';
-import { initializeWhatsApp } from './whatsapp.js';
+import { createApp } from './app.js';
+import { initializeSessions, shutdownSessions } from './sessions.js';
+import { initializeMessageQueue } from './messageQueue.js';
+import { initializeWebhooks } from './webhooks.js';
+import { initializeEventStream } from './eventStream.js';
+import { initializeDownloadJobs } from './voiceDownloader.js';
+import { initializeMessageStore } from './messageStore.js';
+import { initializeContactActivity } from './contactActivity.js';
+import { initializeScheduler } from './scheduler.js';
+import { initializeRateLimits } from './rateLimits.js';
+import { initializeMetrics } from './metrics.js';
+import { initializeIdempotency } from './idempotency.js';
 import pino from 'pino';
 
 const PORT = process.env.PORT || 3001;
+const SHUTDOWN_TIMEOUT_MS = 10_000; // then exit anyway, before the orchestrator's SIGKILL
 const logger = pino({ level: 'info' });
 
 async function main() {
-  const app = express();
-
-  app.use(express.json());
-  app.use(express.static('public'));
-
   logger.info('Initializing WhatsApp connection...');
-  await initializeWhatsApp();
+  initializeRateLimits();
+  initializeIdempotency();
+  initializeWebhooks();
+  initializeMessageQueue();
+  initializeEventStream();
+  initializeMessageStore();
+  initializeContactActivity();
+  initializeDownloadJobs();
+  initializeScheduler();
+  initializeMetrics();
+  await initializeSessions();
 
-  setupRoutes(app);
+  const app = createApp();
 
-  app.listen(PORT, () => {
+  const server = app.listen(PORT, () => {
     logger.info(`Baileys sidecar listening on port ${PORT}`);
   });
+
+  // Stop taking requests, then write pending creds so the next start does not need a new QR scan
+  const shutdown = async (signal: string) => {
+    logger.info(`${signal} received, shutting down...`);
+    setTimeout(() => process.exit(1), SHUTDOWN_TIMEOUT_MS).unref();
+    server.close();
+    await shutdownSessions();
+    process.exit(0);
+  };
+  process.once('SIGTERM', () => void shutdown('SIGTERM'));
+  process.once('SIGINT', () => void shutdown('SIGINT'));
 }
 
 main().catch((error) => {
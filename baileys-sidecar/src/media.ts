@@ -0,0 +1,44 @@
+import { fileTypeFromFile } from 'file-type';
+import { ApiError } from './errors.js';
+
+export type MediaKind = 'image' | 'video' | 'document';
+
+export const MEDIA_KINDS: MediaKind[] = ['image', 'video', 'document'];
+
+// A file ready to send: sniffed mimetype plus what WhatsApp shows alongside it
+export interface OutboundMedia {
+  kind: MediaKind;
+  filePath: string;
+  mimetype: string;
+  caption?: string;
+  fileName?: string; // documents only
+}
+
+const MB = 1024 * 1024;
+
+export const MEDIA_MAX_BYTES: Record<MediaKind, number> = {
+  image: parseInt(process.env.MAX_IMAGE_BYTES || String(16 * MB)),
+  video: parseInt(process.env.MAX_VIDEO_BYTES || String(64 * MB)),
+  document: parseInt(process.env.MAX_DOCUMENT_BYTES || String(100 * MB)),
+};
+
+// Formats WhatsApp renders inline; anything goes as a document
+const INLINE_MIMETYPES: Partial<Record<MediaKind, string[]>> = {
+  image: ['image/jpeg', 'image/png'],
+  video: ['video/mp4', 'video/3gpp'],
+};
+
+// Detect the mimetype from the file's magic bytes rather than trusting the client.
+// Documents fall back to the declared type when the format has no signature (CSV, plain text...).
+export async function sniffMimetype(kind: MediaKind, filePath: string, declared?: string): Promise<string> {
+  const detected = (await fileTypeFromFile(filePath))?.mime;
+  const allowed = INLINE_MIMETYPES[kind];
+
+  if (!allowed) {
+    return detected || declared || 'application/octet-stream';
+  }
+  if (!detected || !allowed.includes(detected)) {
+    throw new ApiError('UNSUPPORTED_MEDIA', `${kind} must be one of ${allowed.join(', ')} (got ${detected || 'unknown'})`);
+  }
+  return detected;
+}
@@ -0,0 +1,338 @@
+import { proto } from '@whiskeysockets/baileys';
+import crypto from 'crypto';
+import fs from 'fs';
+import pino from 'pino';
+import { onWhatsAppEvent } from './whatsapp.js';
+import { getSession, listSessions, onSessionDeleted } from './sessions.js';
+import { dataFile, readJsonFile, touchRecord, writeRetainedRecords } from './storage.js';
+import { AudioFormatError } from './audio.js';
+import { removeStaleUploads, removeUpload } from './uploads.js';
+import { MediaKind, OutboundMedia } from './media.js';
+import { RateLimitError, takeSendToken } from './rateLimits.js';
+import { ApiError } from './errors.js';
+import { positiveInteger } from './config.js';
+
+const logger = pino({ level: 'info' });
+const QUEUE_FILE = dataFile('outbound-messages.json');
+const RETRY_BASE_DELAY = positiveInteger('OUTBOUND_RETRY_DELAY_MS', 5000);
+const MAX_RETRY_DELAY = 5 * 60_000; // 5 minutes max
+const MAX_ATTEMPTS = positiveInteger('OUTBOUND_MAX_ATTEMPTS', 5);
+
+export type OutboundPayload =
+  | { type: 'text'; text: string }
+  | { type: 'audio'; audioPath: string; temporary?: boolean } // temporary: an upload deleted once sent or failed
+  | { type: 'media'; media: OutboundMedia }; // always an upload
+
+export type DeliveryStatus = 'queued' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface OutboundMessage {
+  id: string;
+  sessionId: string;
+  to: string;
+  payload: OutboundPayload;
+  status: DeliveryStatus;
+  attempts: number;
+  messageId?: string; // WhatsApp message id, once sent
+  error?: string;
+  nextAttemptAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  sentAt?: string;
+  deliveredAt?: string;
+  readAt?: string;
+}
+
+export type SendOutcome = 'sent' | 'failed' | 'rate_limited' | 'rejected'; // rejected: invalid or unregistered recipient
+
+export interface SendAttempt {
+  sessionId: string;
+  type: 'text' | 'audio' | MediaKind;
+  outcome: SendOutcome;
+  durationMs: number;
+}
+
+const sendListeners: ((attempt: SendAttempt) => void)[] = [];
+
+let messages: OutboundMessage[] = readJsonFile<OutboundMessage[]>(QUEUE_FILE, []);
+const draining = new Set<string>();
+let retryTimer: NodeJS.Timeout | null = null;
+
+// Messages still queued are kept whatever their age
+function save() {
+  messages = writeRetainedRecords(QUEUE_FILE, messages, m => (m.status === 'queued' ? null : m.updatedAt));
+}
+
+function update(message: OutboundMessage, changes: Partial<OutboundMessage>) {
+  touchRecord(message, changes);
+  save();
+}
+
+function createMessage(sessionId: string, to: string, payload: OutboundPayload, status: DeliveryStatus): OutboundMessage {
+  const now = new Date().toISOString();
+  return { id: crypto.randomUUID(), sessionId, to, payload, status, attempts: 0, createdAt: now, updatedAt: now };
+}
+
+function uploadPath(payload: OutboundPayload): string | null {
+  if (payload.type === 'audio' && payload.temporary) {
+    return payload.audioPath;
+  }
+  return payload.type === 'media' ? payload.media.filePath : null;
+}
+
+// Delete the payload's upload, for a message that will not be sent
+export function releasePayload(payload: OutboundPayload) {
+  const filePath = uploadPath(payload);
+  if (filePath) {
+    removeUpload(filePath);
+  }
+}
+
+function isConnected(sessionId: string): boolean {
+  return getSession(sessionId)?.getConnectionStatus() === 'connected';
+}
+
+// Called after every send attempt, direct, queued or scheduled
+export function onSendAttempt(listener: (attempt: SendAttempt) => void) {
+  sendListeners.push(listener);
+}
+
+// A malformed recipient or one that is not on WhatsApp; retrying cannot help
+function isRecipientRejection(error: unknown): boolean {
+  return error instanceof ApiError && (error.code === 'INVALID_JID' || error.code === 'RECIPIENT_NOT_ON_WHATSAPP');
+}
+
+function outcomeOf(error: unknown): SendOutcome {
+  if (error instanceof RateLimitError) {
+    return 'rate_limited';
+  }
+  return isRecipientRejection(error) ? 'rejected' : 'failed';
+}
+
+// Every send goes through here, so the rate limits cover direct, queued and scheduled sends alike
+async function deliver(sessionId: string, to: string, payload: OutboundPayload): Promise<string> {
+  const startedAt = Date.now();
+  const report = (outcome: SendOutcome) => {
+    const type = payload.type === 'media' ? payload.media.kind : payload.type;
+    for (const listener of sendListeners) {
+      listener({ sessionId, type, outcome, durationMs: Date.now() - startedAt });
+    }
+  };
+
+  try {
+    const messageId = await transmit(sessionId, to, payload);
+    report('sent');
+    return messageId;
+  } catch (error) {
+    report(outcomeOf(error));
+    throw error;
+  }
+}
+
+async function transmit(sessionId: string, to: string, payload: OutboundPayload): Promise<string> {
+  const session = getSession(sessionId);
+  if (!session) {
+    throw new ApiError('SESSION_NOT_FOUND', `Session not found: ${sessionId}`);
+  }
+
+  const jid = await session.resolveRecipient(to);
+  takeSendToken(sessionId, jid);
+
+  switch (payload.type) {
+    case 'text':
+      return session.sendTextMessage(jid, payload.text);
+    case 'audio':
+      return session.sendAudioMessage(jid, payload.audioPath);
+    case 'media':
+      return session.sendMediaMessage(jid, payload.media);
+  }
+}
+
+// Send right away (throws if WhatsApp is not connected) and track delivery receipts
+export async function sendTracked(sessionId: string, to: string, payload: OutboundPayload): Promise<OutboundMessage> {
+  let messageId: string;
+  try {
+    messageId = await deliver(sessionId, to, payload);
+  } finally {
+    releasePayload(payload);
+  }
+
+  const message = createMessage(sessionId, to, payload, 'sent');
+  message.attempts = 1;
+  message.messageId = messageId;
+  message.sentAt = message.createdAt;
+  messages.push(message);
+  save();
+
+  return message;
+}
+
+// Persist the message and send it as soon as the session's socket is open
+export function enqueueMessage(sessionId: string, to: string, payload: OutboundPayload): OutboundMessage {
+  if (payload.type === 'audio' && !fs.existsSync(payload.audioPath)) {
+    throw new ApiError('AUDIO_NOT_FOUND', `Audio file not found: ${payload.audioPath}`);
+  }
+  if (payload.type === 'media' && !fs.existsSync(payload.media.filePath)) {
+    throw new ApiError('MEDIA_NOT_FOUND', `Media file not found: ${payload.media.filePath}`);
+  }
+
+  const message = createMessage(sessionId, to, payload, 'queued');
+  messages.push(message);
+  save();
+
+  logger.info(`[${sessionId}] 📬 Queued ${payload.type} message ${message.id} for ${to}`);
+  void drainQueue(sessionId);
+
+  return message;
+}
+
+// Look up by queue id or by WhatsApp message id
+export function getOutboundMessage(sessionId: string, id: string): OutboundMessage | null {
+  return messages.find(m => m.sessionId === sessionId && (m.id === id || m.messageId === id)) || null;
+}
+
+function scheduleRetry() {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  const next = messages
+    .filter(m => m.status === 'queued' && m.nextAttemptAt)
+    .map(m => new Date(m.nextAttemptAt!).getTime())
+    .sort((a, b) => a - b)[0];
+
+  if (next !== undefined) {
+    retryTimer = setTimeout(drainAll, Math.max(next - Date.now(), 0));
+    retryTimer.unref();
+  }
+}
+
+function drainAll() {
+  for (const session of listSessions()) {
+    void drainQueue(session.id);
+  }
+}
+
+export async function drainQueue(sessionId: string) {
+  if (draining.has(sessionId)) {
+    return;
+  }
+  draining.add(sessionId);
+
+  try {
+    while (isConnected(sessionId)) {
+      const now = Date.now();
+      // Messages to one recipient go out in order: one waiting for a retry or a rate limit holds back the later ones
+      const waiting = new Set<string>();
+      const message = messages.find(m => {
+        if (m.sessionId !== sessionId || m.status !== 'queued' || waiting.has(m.to)) {
+          return false;
+        }
+        if (m.nextAttemptAt && new Date(m.nextAttemptAt).getTime() > now) {
+          waiting.add(m.to);
+          return false;
+        }
+        return true;
+      });
+      if (!message) {
+        break;
+      }
+
+      try {
+        const messageId = await deliver(sessionId, message.to, message.payload);
+        update(message, {
+          status: 'sent',
+          attempts: message.attempts + 1,
+          messageId,
+          sentAt: new Date().toISOString(),
+          nextAttemptAt: undefined,
+          error: undefined,
+        });
+        releasePayload(message.payload);
+        logger.info(`[${sessionId}] 📤 Sent queued message ${message.id} (messageId: ${messageId})`);
+      } catch (error: any) {
+        // Dropped connection: leave the message queued without spending an attempt
+        if (!isConnected(sessionId)) {
+          break;
+        }
+
+        // Over a rate limit: wait for the next token, without spending an attempt either
+        if (error instanceof RateLimitError) {
+          update(message, { nextAttemptAt: new Date(Date.now() + error.retryAfterMs).toISOString() });
+          logger.info(`[${sessionId}] ⏳ Queued message ${message.id} delayed ${error.retryAfterMs}ms: ${error.message}`);
+          continue;
+        }
+
+        // A malformed audio file or an unregistered recipient will not get better with retries
+        const attempts = message.attempts + 1;
+        if (attempts >= MAX_ATTEMPTS || error instanceof AudioFormatError || isRecipientRejection(error)) {
+          update(message, { status: 'failed', attempts, error: error.message, nextAttemptAt: undefined });
+          releasePayload(message.payload);
+          logger.error(`❌ Queued message ${message.id} failed after ${attempts} attempts: ${error.message}`);
+        } else {
+          const backoffDelay = Math.min(RETRY_BASE_DELAY * Math.pow(2, attempts - 1), MAX_RETRY_DELAY);
+          update(message, {
+            attempts,
+            error: error.message,
+            nextAttemptAt: new Date(Date.now() + backoffDelay).toISOString(),
+          });
+          logger.warn(`Retrying queued message ${message.id} in ${backoffDelay}ms (attempt ${attempts}): ${error.message}`);
+        }
+      }
+    }
+  } finally {
+    draining.delete(sessionId);
+    scheduleRetry();
+  }
+}
+
+function applyReceipt(sessionId: string, messageId: string, status: number) {
+  const message = messages.find(m => m.sessionId === sessionId && m.messageId === messageId);
+  if (!message) {
+    return;
+  }
+
+  const now = new Date().toISOString();
+  if (status >= proto.WebMessageInfo.Status.READ && message.status !== 'read') {
+    update(message, { status: 'read', readAt: now, deliveredAt: message.deliveredAt || now });
+  } else if (status === proto.WebMessageInfo.Status.DELIVERY_ACK && message.status === 'sent') {
+    update(message, { status: 'delivered', deliveredAt: now });
+  }
+}
+
+// A deleted session's queued messages can never go out
+function failSessionMessages(sessionId: string) {
+  const queued = messages.filter(m => m.sessionId === sessionId && m.status === 'queued');
+  for (const message of queued) {
+    update(message, { status: 'failed', error: 'Session deleted', nextAttemptAt: undefined });
+    releasePayload(message.payload);
+  }
+  if (queued.length > 0) {
+    logger.info(`[${sessionId}] ${queued.length} queued message(s) failed: session deleted`);
+  }
+}
+
+export function initializeMessageQueue() {
+  onSessionDeleted(failSessionMessages);
+
+  onWhatsAppEvent('connection.update', ({ connection }, session) => {
+    if (connection === 'open') {
+      void drainQueue(session.id);
+    }
+  });
+
+  onWhatsAppEvent('messages.update', (updates, session) => {
+    for (const { key, update: change } of updates) {
+      if (key.fromMe && key.id && typeof change.status === 'number') {
+        applyReceipt(session.id, key.id, change.status);
+      }
+    }
+  });
+
+  const pending = messages.filter(m => m.status === 'queued');
+  if (pending.length > 0) {
+    logger.info(`📬 ${pending.length} queued message(s) waiting for the connection`);
+  }
+  removeStaleUploads(new Set(pending.map(m => uploadPath(m.payload)).filter((p): p is string => p !== null)));
+  drainAll();
+}
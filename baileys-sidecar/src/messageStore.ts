@@ -0,0 +1,338 @@
+import {
+  BufferJSON,
+  Chat,
+  WAMessage,
+  WAMessageKey,
+  getContentType,
+  isJidGroup,
+  normalizeMessageContent,
+  toNumber,
+} from '@whiskeysockets/baileys';
+import fs from 'fs';
+import path from 'path';
+import pino from 'pino';
+import { onWhatsAppEvent } from './whatsapp.js';
+import { onSessionDeleted } from './sessions.js';
+import { dataFile } from './storage.js';
+import { ApiError } from './errors.js';
+
+const logger = pino({ level: 'info' });
+// Append-only like the voice index: a later line for the same chat or message replaces the earlier one.
+// Messages are serialized with BufferJSON so media keys survive and bulk downloads can fetch them later.
+const STORE_FILE = dataFile('messages.jsonl');
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+// Content types that are not user-visible messages
+const IGNORED_TYPES = ['protocolMessage', 'reactionMessage'];
+
+export interface StoredChat {
+  jid: string;
+  name: string | null;
+  lastMessageAt: number | null; // unix seconds
+  unreadCount: number;
+}
+
+export interface ChatSummary extends Omit<StoredChat, 'lastMessageAt'> {
+  lastMessageAt: string | null;
+  messageCount: number;
+}
+
+export interface MessageSummary {
+  id: string;
+  chatId: string;
+  fromMe: boolean;
+  sender: string | null; // group participant or the contact; null for our own messages
+  pushName: string | null;
+  timestamp: string;
+  type: string;
+  text: string | null;
+  seconds: number | null; // audio and video duration
+  status: number | null; // proto.WebMessageInfo.Status of our own messages
+}
+
+type StoreEntry = { sessionId: string; chat: StoredChat } | { sessionId: string; message: WAMessage };
+
+interface SessionStore {
+  chats: Map<string, StoredChat>;
+  messages: Map<string, Map<string, WAMessage>>; // chat JID -> message key -> message
+}
+
+const sessions = new Map<string, SessionStore>();
+let lineCount = 0;
+
+function sessionStore(sessionId: string): SessionStore {
+  let store = sessions.get(sessionId);
+  if (!store) {
+    store = { chats: new Map(), messages: new Map() };
+    sessions.set(sessionId, store);
+  }
+  return store;
+}
+
+function messageKey(key: WAMessageKey): string {
+  return `${key.fromMe ? 1 : 0}|${key.id}`;
+}
+
+function timestampOf(message: WAMessage): number {
+  return toNumber(message.messageTimestamp);
+}
+
+function chatFor(sessionId: string, jid: string): StoredChat {
+  return sessionStore(sessionId).chats.get(jid) || { jid, name: null, lastMessageAt: null, unreadCount: 0 };
+}
+
+function apply(entry: StoreEntry) {
+  const store = sessionStore(entry.sessionId);
+  if ('chat' in entry) {
+    store.chats.set(entry.chat.jid, entry.chat);
+    return;
+  }
+
+  const jid = entry.message.key.remoteJid!;
+  let chatMessages = store.messages.get(jid);
+  if (!chatMessages) {
+    chatMessages = new Map();
+    store.messages.set(jid, chatMessages);
+  }
+  chatMessages.set(messageKey(entry.message.key), entry.message);
+}
+
+function load() {
+  if (!fs.existsSync(STORE_FILE)) {
+    return;
+  }
+
+  for (const line of fs.readFileSync(STORE_FILE, 'utf8').split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    lineCount++;
+    try {
+      apply(JSON.parse(line, BufferJSON.reviver));
+    } catch {
+      // A crash mid-append leaves a truncated last line
+      logger.warn(`Skipping unreadable line in ${STORE_FILE}`);
+    }
+  }
+
+  compactIfNeeded();
+}
+
+function serialize(entry: StoreEntry): string {
+  return JSON.stringify(entry, BufferJSON.replacer);
+}
+
+// Status updates rewrite whole messages, so the file grows faster than the store: rewrite it
+// with one line per chat and message once most lines are stale (checked on load and after appends)
+function compactIfNeeded() {
+  let live = 0;
+  for (const store of sessions.values()) {
+    live += store.chats.size + Array.from(store.messages.values()).reduce((sum, chatMessages) => sum + chatMessages.size, 0);
+  }
+  if (lineCount > 2 * live + 1000) {
+    compact();
+  }
+}
+
+function compact() {
+  const lines: string[] = [];
+  for (const [sessionId, store] of sessions) {
+    for (const chat of store.chats.values()) {
+      lines.push(serialize({ sessionId, chat }));
+    }
+    for (const chatMessages of store.messages.values()) {
+      for (const message of chatMessages.values()) {
+        lines.push(serialize({ sessionId, message }));
+      }
+    }
+  }
+
+  const tmpPath = `${STORE_FILE}.tmp`;
+  fs.writeFileSync(tmpPath, lines.map(line => line + '\n').join(''));
+  fs.renameSync(tmpPath, STORE_FILE);
+  logger.info(`Compacted ${STORE_FILE} from ${lineCount} to ${lines.length} lines`);
+  lineCount = lines.length;
+}
+
+function append(entries: StoreEntry[]) {
+  if (entries.length === 0) {
+    return;
+  }
+  fs.mkdirSync(path.dirname(STORE_FILE), { recursive: true });
+  fs.appendFileSync(STORE_FILE, entries.map(entry => serialize(entry) + '\n').join(''));
+  lineCount += entries.length;
+  entries.forEach(apply);
+  compactIfNeeded();
+}
+
+function isStorable(message: WAMessage): boolean {
+  const jid = message.key.remoteJid;
+  if (!jid || !message.key.id || jid === 'status@broadcast' || !message.message) {
+    return false;
+  }
+  const type = getContentType(normalizeMessageContent(message.message));
+  return !!type && !IGNORED_TYPES.includes(type);
+}
+
+function storeMessages(sessionId: string, incoming: WAMessage[]) {
+  const entries: StoreEntry[] = [];
+  const touched = new Map<string, StoredChat>();
+
+  for (const message of incoming.filter(isStorable)) {
+    const jid = message.key.remoteJid!;
+    const timestamp = timestampOf(message);
+    entries.push({ sessionId, message: { ...message, messageTimestamp: timestamp } });
+
+    const chat = { ...(touched.get(jid) || chatFor(sessionId, jid)) };
+    chat.lastMessageAt = Math.max(chat.lastMessageAt ?? 0, timestamp);
+    // One-to-one chats are named after the contact until chats.upsert gives a better name
+    if (!chat.name && !message.key.fromMe && message.pushName && !isJidGroup(jid)) {
+      chat.name = message.pushName;
+    }
+    touched.set(jid, chat);
+  }
+
+  for (const chat of touched.values()) {
+    entries.push({ sessionId, chat });
+  }
+  append(entries);
+}
+
+function storeChats(sessionId: string, incoming: Chat[]) {
+  const entries: StoreEntry[] = [];
+  for (const chat of incoming) {
+    if (!chat.id || chat.id === 'status@broadcast') {
+      continue;
+    }
+
+    const existing = chatFor(sessionId, chat.id);
+    const timestamp = chat.conversationTimestamp ? toNumber(chat.conversationTimestamp) : 0;
+    entries.push({
+      sessionId,
+      chat: {
+        jid: chat.id,
+        name: chat.name || existing.name,
+        lastMessageAt: Math.max(existing.lastMessageAt ?? 0, timestamp) || null,
+        unreadCount: chat.unreadCount ?? existing.unreadCount,
+      },
+    });
+  }
+  append(entries);
+}
+
+// Delivery receipts, edits and revocations patch the stored copy
+function updateMessages(sessionId: string, updates: { key: WAMessageKey; update: Partial<WAMessage> }[]) {
+  const entries: StoreEntry[] = [];
+  for (const { key, update } of updates) {
+    const stored = key.remoteJid && sessionStore(sessionId).messages.get(key.remoteJid)?.get(messageKey(key));
+    if (stored) {
+      entries.push({ sessionId, message: { ...stored, ...update, key: stored.key } });
+    }
+  }
+  append(entries);
+}
+
+export function getStoredChat(sessionId: string, jid: string): StoredChat | null {
+  return sessions.get(sessionId)?.chats.get(jid) || null;
+}
+
+function storedMessages(sessionId: string, jid: string): WAMessage[] {
+  const chatMessages = sessions.get(sessionId)?.messages.get(jid);
+  // Map order is arrival order, which the stable sort keeps for messages sent in the same second
+  return chatMessages ? Array.from(chatMessages.values()).sort((a, b) => timestampOf(a) - timestampOf(b)) : [];
+}
+
+// Chats with the most recent activity first
+export function listChats(sessionId: string): ChatSummary[] {
+  const store = sessionStore(sessionId);
+  return Array.from(store.chats.values())
+    .map(chat => ({
+      ...chat,
+      lastMessageAt: chat.lastMessageAt ? new Date(chat.lastMessageAt * 1000).toISOString() : null,
+      messageCount: store.messages.get(chat.jid)?.size ?? 0,
+    }))
+    .sort((a, b) => (b.lastMessageAt ?? '').localeCompare(a.lastMessageAt ?? ''));
+}
+
+function summarize(message: WAMessage): MessageSummary {
+  const content = normalizeMessageContent(message.message);
+  const type = getContentType(content) || 'unknown';
+  const media = content?.audioMessage || content?.videoMessage;
+
+  return {
+    id: message.key.id!,
+    chatId: message.key.remoteJid!,
+    fromMe: !!message.key.fromMe,
+    sender: message.key.fromMe ? null : message.key.participant || message.key.remoteJid!,
+    pushName: message.pushName || null,
+    timestamp: new Date(timestampOf(message) * 1000).toISOString(),
+    type,
+    text:
+      content?.conversation ||
+      content?.extendedTextMessage?.text ||
+      content?.imageMessage?.caption ||
+      content?.videoMessage?.caption ||
+      content?.documentMessage?.caption ||
+      null,
+    seconds: media?.seconds ?? null,
+    status: message.status ?? null,
+  };
+}
+
+// Newest first; `before` is the id of the oldest message of the previous page
+export function getChatMessages(sessionId: string, jid: string, options: { before?: string; limit?: number } = {}) {
+  const limit = Math.min(options.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  let history = storedMessages(sessionId, jid).reverse();
+
+  if (options.before) {
+    const index = history.findIndex(m => m.key.id === options.before);
+    if (index === -1) {
+      throw new ApiError('INVALID_QUERY', `Unknown message id: ${options.before}`);
+    }
+    history = history.slice(index + 1);
+  }
+
+  const page = history.slice(0, limit);
+  return {
+    messages: page.map(summarize),
+    nextBefore: history.length > limit ? page[page.length - 1].key.id! : null,
+  };
+}
+
+// Voice notes among a chat's last `lastMessages` stored messages, oldest first
+export function getVoiceNotes(sessionId: string, jid: string, lastMessages: number): WAMessage[] {
+  return storedMessages(sessionId, jid)
+    .slice(-lastMessages)
+    .filter(m => normalizeMessageContent(m.message)?.audioMessage?.ptt === true);
+}
+
+// A session created later under the same id starts with an empty store
+function purgeSession(sessionId: string) {
+  if (sessions.delete(sessionId)) {
+    compact();
+  }
+}
+
+export function initializeMessageStore() {
+  onSessionDeleted(purgeSession);
+
+  onWhatsAppEvent('messaging-history.set', ({ chats: syncedChats, messages: synced }, session) => {
+    storeChats(session.id, syncedChats);
+    storeMessages(session.id, synced);
+    logger.info(`[${session.id}] History sync: ${synced.length} message(s) in ${syncedChats.length} chat(s)`);
+  });
+
+  onWhatsAppEvent('chats.upsert', (upserted, session) => {
+    storeChats(session.id, upserted);
+  });
+
+  onWhatsAppEvent('messages.upsert', ({ messages: upserted }, session) => {
+    storeMessages(session.id, upserted);
+  });
+
+  onWhatsAppEvent('messages.update', (updates, session) => {
+    updateMessages(session.id, updates);
+  });
+}
+
+load();
@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { onReconnect, onVoiceSaved } from './whatsapp.js';
+import { CONNECTION_STATUSES } from './connectionSupervisor.js';
+import { listSessions } from './sessions.js';
+import { onSendAttempt } from './messageQueue.js';
+import { DownloadJobStatus, listDownloadJobs } from './voiceDownloader.js';
+
+const PREFIX = 'sidecar_';
+const DISK_USAGE_TTL_MS = 60_000; // walking a large voices directory on every scrape would be wasteful
+const JOB_STATUSES: DownloadJobStatus[] = ['queued', 'running', 'paused', 'completed', 'failed', 'cancelled'];
+
+const registry = new Registry();
+
+// Counters and the histogram are fed by listeners; gauges are computed when scraped
+const messagesSent = new Counter({
+  name: `${PREFIX}messages_sent_total`,
+  help: 'Send attempts, direct, queued and scheduled, by message type and outcome',
+  labelNames: ['session', 'type', 'outcome'] as const,
+  registers: [registry],
+});
+
+const sendDuration = new Histogram({
+  name: `${PREFIX}send_duration_seconds`,
+  help: 'Time to hand a message to WhatsApp, audio conversion included, for successful sends',
+  labelNames: ['session', 'type'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry],
+});
+
+const voicesSaved = new Counter({
+  name: `${PREFIX}voices_saved_total`,
+  help: 'Voice notes auto-saved as they arrived',
+  labelNames: ['session'] as const,
+  registers: [registry],
+});
+
+const voicesSavedBytes = new Counter({
+  name: `${PREFIX}voices_saved_bytes_total`,
+  help: 'Size of the voice notes auto-saved as they arrived',
+  labelNames: ['session'] as const,
+  registers: [registry],
+});
+
+const reconnectAttempts = new Counter({
+  name: `${PREFIX}reconnect_attempts_total`,
+  help: 'Reconnections scheduled after a dropped WhatsApp connection',
+  labelNames: ['session'] as const,
+  registers: [registry],
+});
+
+new Gauge({
+  name: `${PREFIX}connection_status`,
+  help: 'Current WhatsApp connection status: 1 for the status the session is in, 0 for the others',
+  labelNames: ['session', 'status'] as const,
+  registers: [registry],
+  collect() {
+    this.reset();
+    for (const session of listSessions()) {
+      const current = session.getConnectionStatus();
+      for (const status of CONNECTION_STATUSES) {
+        this.set({ session: session.id, status }, status === current ? 1 : 0);
+      }
+    }
+  },
+});
+
+new Gauge({
+  name: `${PREFIX}download_jobs`,
+  help: 'Voice download jobs by status (finished jobs are kept for a week)',
+  labelNames: ['session', 'status'] as const,
+  registers: [registry],
+  collect() {
+    this.reset();
+    for (const session of listSessions()) {
+      const jobs = listDownloadJobs(session.id);
+      for (const status of JOB_STATUSES) {
+        this.set({ session: session.id, status }, jobs.filter(job => job.status === status).length);
+      }
+    }
+  },
+});
+
+new Gauge({
+  name: `${PREFIX}voices_disk_bytes`,
+  help: `Disk space used by the session's voices directory (refreshed at most every ${DISK_USAGE_TTL_MS / 1000}s)`,
+  labelNames: ['session'] as const,
+  registers: [registry],
+  async collect() {
+    this.reset();
+    for (const session of listSessions()) {
+      this.set({ session: session.id }, await diskUsage(session.voicesPath));
+    }
+  },
+});
+
+// Dropped when a voice note is saved, so new recordings show up on the next scrape
+const diskUsageCache = new Map<string, { bytes: number; expiresAt: number }>();
+let diskUsageGeneration = 0;
+
+async function directorySize(dir: string): Promise<number> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return 0; // removed while walking
+  }
+
+  let total = 0;
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += await directorySize(entryPath);
+    } else if (entry.isFile()) {
+      total += await fs.promises.stat(entryPath).then(stats => stats.size, () => 0);
+    }
+  }
+  return total;
+}
+
+async function diskUsage(dir: string): Promise<number> {
+  const cached = diskUsageCache.get(dir);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.bytes;
+  }
+
+  const generation = diskUsageGeneration;
+  const bytes = await directorySize(dir);
+  if (generation === diskUsageGeneration) {
+    diskUsageCache.set(dir, { bytes, expiresAt: Date.now() + DISK_USAGE_TTL_MS });
+  }
+  return bytes;
+}
+
+// Everything in the Prometheus text format
+export async function renderMetrics(): Promise<{ contentType: string; body: string }> {
+  return { contentType: registry.contentType, body: await registry.metrics() };
+}
+
+export function initializeMetrics() {
+  collectDefaultMetrics({ register: registry, prefix: PREFIX });
+
+  onSendAttempt(({ sessionId, type, outcome, durationMs }) => {
+    messagesSent.inc({ session: sessionId, type, outcome });
+    if (outcome === 'sent') {
+      sendDuration.observe({ session: sessionId, type }, durationMs / 1000);
+    }
+  });
+
+  onVoiceSaved(({ session, size }) => {
+    voicesSaved.inc({ session: session.id });
+    voicesSavedBytes.inc({ session: session.id }, size);
+    diskUsageCache.delete(session.voicesPath);
+    diskUsageGeneration++;
+  });
+
+  onReconnect(({ session }) => {
+    reconnectAttempts.inc({ session: session.id });
+  });
+}
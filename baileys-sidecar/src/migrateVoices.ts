@@ -0,0 +1,182 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  AUTO_DOWNLOAD_FILE,
+  VoiceDirection,
+  VoiceRecord,
+  canonicalVoicePath,
+  hashVoice,
+  indexedVoices,
+  legacyMessageId,
+  recordVoiceFile,
+  relocateVoice,
+  voicePathFor,
+  voicesAtPath,
+} from './voiceIndex.js';
+import { DEFAULT_SESSION_ID, sessionPaths } from './sessions.js';
+
+// One-shot move of a voices directory written by older versions into the canonical layout
+// (<chat number>/<direction>_<message id>.ogg, see canonicalVoicePath). Older layouts:
+//   YYYY-MM-DD/<number>/<direction>_voice_<timestamp>.ogg     auto-download
+//   YYYY-MM-DD/<number>/voice_<timestamp>.ogg                 auto-download, before directions
+//   <number>_<date>/<number>_<timestamp>.ogg                  bulk download of one chat
+//   all_voices_<date>/<number>/<number>_<timestamp>.ogg       bulk download of every chat
+// Run it with the sidecar stopped: it rewrites the voice index the sidecar keeps in memory.
+
+export interface MigrationReport {
+  scanned: number;
+  moved: number;
+  alreadyCanonical: number;
+  duplicatesRemoved: number;
+  collisions: { source: string; target: string }[]; // different audio for the same voice note, left in place
+  unrecognized: string[];
+}
+
+const BULK_DOWNLOAD_FILE = /^(\d+)_(\d+)\.ogg$/;
+
+function listOggFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return listOggFiles(entryPath);
+    }
+    return entry.name.endsWith('.ogg') ? [entryPath] : [];
+  });
+}
+
+function removeEmptyDirs(dir: string, root: string) {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      removeEmptyDirs(path.join(dir, entry.name), root);
+    }
+  }
+  if (dir !== root && fs.readdirSync(dir).length === 0) {
+    fs.rmdirSync(dir);
+  }
+}
+
+// What an unindexed file name says about its voice note. Files whose name does not record the
+// direction are taken as received.
+function describeFile(filePath: string): { contact: string; direction: VoiceDirection; timestamp: string } | null {
+  const name = path.basename(filePath);
+  const auto = name.match(AUTO_DOWNLOAD_FILE);
+  if (auto) {
+    const contact = path.basename(path.dirname(filePath));
+    return { contact: `${contact}@s.whatsapp.net`, direction: (auto[1] || 'received') as VoiceDirection, timestamp: toIso(auto[2]) };
+  }
+  const bulk = name.match(BULK_DOWNLOAD_FILE);
+  if (bulk) {
+    return { contact: `${bulk[1]}@s.whatsapp.net`, direction: 'received', timestamp: toIso(bulk[2]) };
+  }
+  return null;
+}
+
+function toIso(seconds: string): string {
+  return new Date(parseInt(seconds) * 1000).toISOString();
+}
+
+export function migrateVoices(sessionId: string, voicesPath: string, dryRun = false): MigrationReport {
+  const report: MigrationReport = { scanned: 0, moved: 0, alreadyCanonical: 0, duplicatesRemoved: 0, collisions: [], unrecognized: [] };
+
+  // Indexed files first (they know their message), then auto-downloads (they know their direction)
+  const indexed = new Set(indexedVoices(sessionId).map(voice => path.resolve(voice.path)));
+  const rank = (file: string) => (indexed.has(path.resolve(file)) ? 0 : AUTO_DOWNLOAD_FILE.test(path.basename(file)) ? 1 : 2);
+  const files = listOggFiles(voicesPath).sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+
+  // Audio already in its canonical place, by content hash, and the reverse (planned moves
+  // included, so a dry run reports the same collisions as the real run)
+  const kept = new Map<string, string>();
+  const claimed = new Map<string, string>();
+  const hashAt = (target: string) =>
+    claimed.get(path.resolve(target)) ?? (fs.existsSync(target) ? hashVoice(fs.readFileSync(target)) : null);
+  for (const voice of indexedVoices(sessionId)) {
+    if (voice.sha256 && path.resolve(voice.path) === path.resolve(voicePathFor(voicesPath, voice)) && fs.existsSync(voice.path)) {
+      kept.set(voice.sha256, voice.path);
+    }
+  }
+
+  for (const source of files) {
+    report.scanned++;
+    let records: VoiceRecord[] = voicesAtPath(sessionId, source);
+    const described = records.length === 0 ? describeFile(source) : null;
+    if (records.length === 0 && !described) {
+      report.unrecognized.push(source);
+      continue;
+    }
+
+    const sha256 = hashVoice(fs.readFileSync(source));
+    const target = records.length > 0
+      ? voicePathFor(voicesPath, records[0])
+      : canonicalVoicePath(voicesPath, described!.contact, described!.direction, legacyMessageId(described!.timestamp));
+
+    if (path.resolve(source) === path.resolve(target)) {
+      report.alreadyCanonical++;
+      kept.set(sha256, source);
+      continue;
+    }
+
+    // The same audio is already kept (the other download of this voice note, or a forward of it)
+    const targetHash = hashAt(target);
+    const existing = kept.get(sha256) ?? (targetHash === sha256 ? target : null);
+    if (existing) {
+      report.duplicatesRemoved++;
+      if (!dryRun) {
+        records.forEach(record => relocateVoice(record, existing, sha256));
+        fs.rmSync(source);
+      }
+      continue;
+    }
+
+    if (targetHash !== null) {
+      report.collisions.push({ source, target });
+      continue;
+    }
+
+    report.moved++;
+    kept.set(sha256, target);
+    claimed.set(path.resolve(target), sha256);
+    if (dryRun) {
+      continue;
+    }
+
+    if (records.length === 0) {
+      records = [recordVoiceFile(sessionId, source, described!.contact, described!.direction, described!.timestamp)];
+    }
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.renameSync(source, target);
+    records.forEach(record => relocateVoice(record, target, sha256));
+  }
+
+  if (!dryRun && fs.existsSync(voicesPath)) {
+    removeEmptyDirs(voicesPath, voicesPath);
+  }
+  return report;
+}
+
+// npm run migrate:voices -- [--session <id>] [--dry-run] [voices directory]
+function main(args: string[]) {
+  const dryRun = args.includes('--dry-run');
+  const sessionFlag = args.indexOf('--session');
+  const sessionId = sessionFlag >= 0 ? args[sessionFlag + 1] : DEFAULT_SESSION_ID;
+  const [dir] = args.filter((arg, i) => !arg.startsWith('--') && (sessionFlag < 0 || i !== sessionFlag + 1));
+  const voicesPath = dir || sessionPaths(sessionId).voicesPath;
+
+  console.log(`${dryRun ? 'Dry run: ' : ''}migrating ${voicesPath} (session ${sessionId})`);
+  const report = migrateVoices(sessionId, voicesPath, dryRun);
+
+  console.log(`Scanned ${report.scanned} file(s): ${report.moved} moved, ${report.duplicatesRemoved} duplicate(s) removed, ${report.alreadyCanonical} already in place`);
+  for (const { source, target } of report.collisions) {
+    console.log(`Collision: ${source} differs from ${target}, left in place`);
+  }
+  for (const file of report.unrecognized) {
+    console.log(`Unrecognized file name, left in place: ${file}`);
+  }
+}
+
+if (process.argv[1] && fileURLToPath(import.meta.url) === path.resolve(process.argv[1])) {
+  main(process.argv.slice(2));
+}
@@ -0,0 +1,166 @@
+import fs from 'fs';
+import http from 'http';
+import { z } from 'zod';
+import { ApiRouter, routeErrors } from './api.js';
+import { ERROR_STATUS, ErrorCode } from './errors.js';
+import { ErrorResponse } from './schemas.js';
+import { IDEMPOTENCY_HEADER } from './idempotency.js';
+
+const { version } = JSON.parse(fs.readFileSync(new URL('../package.json', import.meta.url), 'utf8'));
+
+type JsonSchema = Record<string, any>;
+
+// Where a router's routes are served; the prefix's {params} are path parameters of every route
+export interface ApiMount {
+  api: ApiRouter;
+  prefix?: string;
+  errors?: ErrorCode[]; // answered by the mount's own middleware
+}
+
+// JSON Schema of a zod schema; schemas with a meta id go to the document's components
+function jsonSchema(schema: z.ZodType, components: Record<string, JsonSchema>): JsonSchema {
+  const { $schema, $defs, ...root } = z.toJSONSchema(schema, { io: 'input', target: 'draft-2020-12' }) as JsonSchema;
+  for (const [id, definition] of Object.entries($defs ?? {})) {
+    components[id] = withComponentRefs(definition);
+  }
+  return withComponentRefs(root);
+}
+
+function withComponentRefs(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(withComponentRefs);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) =>
+        key === '$ref' && typeof item === 'string'
+          ? [key, item.replace('#/$defs/', '#/components/schemas/')]
+          : [key, withComponentRefs(item)]
+      )
+    );
+  }
+  return value;
+}
+
+// Query and path parameters from an object schema
+function parameters(location: 'path' | 'query', schema: JsonSchema) {
+  const required: string[] = schema.required ?? [];
+  return Object.entries(schema.properties ?? {}).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.includes(name),
+    schema: property,
+  }));
+}
+
+const idempotencyHeader = {
+  name: IDEMPOTENCY_HEADER,
+  in: 'header',
+  required: false,
+  description: 'Repeating the key within IDEMPOTENCY_WINDOW_HOURS returns the first response (Idempotent-Replayed: true) instead of sending again',
+  schema: { type: 'string', minLength: 1, maxLength: 255 },
+};
+
+function errorResponses(codes: ErrorCode[]) {
+  const byStatus = new Map<number, ErrorCode[]>();
+  for (const code of codes) {
+    byStatus.set(ERROR_STATUS[code], [...(byStatus.get(ERROR_STATUS[code]) ?? []), code]);
+  }
+
+  return Object.fromEntries(
+    Array.from(byStatus, ([status, statusCodes]) => [
+      status,
+      {
+        description: `${http.STATUS_CODES[status]}: ${statusCodes.join(', ')}`,
+        content: {
+          'application/json': {
+            schema: {
+              allOf: [{ $ref: '#/components/schemas/Error' }, { properties: { code: { enum: statusCodes } } }],
+            },
+          },
+        },
+      },
+    ])
+  );
+}
+
+function operation(mount: ApiMount, route: ApiRouter['routes'][number], path: string, components: Record<string, JsonSchema>) {
+  const { spec } = route;
+  const responses: Record<string, unknown> = {};
+
+  for (const [status, schema] of Object.entries(spec.responses ?? {})) {
+    responses[status] = {
+      description: http.STATUS_CODES[Number(status)],
+      content: { 'application/json': { schema: jsonSchema(schema, components) } },
+    };
+  }
+  if (spec.content) {
+    const binary = !spec.content.startsWith('text/');
+    responses[200] = {
+      description: http.STATUS_CODES[200],
+      content: { [spec.content]: { schema: binary ? { type: 'string', format: 'binary' } : { type: 'string' } } },
+    };
+  }
+  Object.assign(responses, errorResponses([...(mount.errors ?? []), ...routeErrors(spec, mount.api.isPublic)]));
+
+  const pathParams = spec.params ? parameters('path', jsonSchema(spec.params, components)) : [];
+  for (const [, name] of path.matchAll(/\{(\w+)\}/g)) {
+    if (!pathParams.some(param => param.name === name)) {
+      pathParams.unshift({ name, in: 'path', required: true, schema: { type: 'string' } });
+    }
+  }
+
+  let requestBody: unknown;
+  if (spec.body) {
+    const schema = jsonSchema(spec.body, components);
+    const content: Record<string, unknown> = { 'application/json': { schema } };
+    if (spec.upload) {
+      const properties = { ...schema.properties, [spec.upload.field]: { type: 'string', format: 'binary' } };
+      content['multipart/form-data'] = { schema: { ...schema, properties } };
+    }
+    requestBody = { required: true, content };
+  }
+
+  return {
+    summary: spec.summary,
+    ...(spec.description && { description: spec.description }),
+    ...(spec.scope && { 'x-required-scope': spec.scope }),
+    ...(mount.api.isPublic && { security: [] }),
+    parameters: [
+      ...pathParams,
+      ...(spec.query ? parameters('query', jsonSchema(spec.query, components)) : []),
+      ...(spec.idempotent ? [idempotencyHeader] : []),
+    ],
+    ...(requestBody !== undefined && { requestBody }),
+    responses,
+  };
+}
+
+// OpenAPI 3.1 document of the routes, generated from the schemas they are validated with
+export function buildOpenApiDocument(mounts: ApiMount[]) {
+  const components: Record<string, JsonSchema> = {};
+  jsonSchema(ErrorResponse, components);
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const mount of mounts) {
+    for (const route of mount.api.routes) {
+      const path = `${mount.prefix ?? ''}${route.path}`.replace(/:(\w+)/g, '{$1}');
+      paths[path] = { ...paths[path], [route.method]: operation(mount, route, path, components) };
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'KeepClose WhatsApp sidecar',
+      version,
+      description: 'Errors answer { success: false, code, error }; clients should branch on `code`.',
+    },
+    security: [{ apiKey: [] }],
+    paths,
+    components: {
+      securitySchemes: { apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' } },
+      schemas: components,
+    },
+  };
+}
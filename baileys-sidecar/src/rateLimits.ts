@@ -0,0 +1,139 @@
+import pino from 'pino';
+import { ApiError } from './errors.js';
+
+const logger = pino({ level: 'info' });
+
+// Token buckets on outbound messages, per session: one for everything the account sends and one
+// per recipient JID. Configured as "<messages>/<seconds>": up to <messages> at once, refilled
+// evenly over <seconds>. "off" disables a limit.
+export interface RateLimit {
+  capacity: number;
+  windowSeconds: number;
+}
+
+export interface RateLimits {
+  global: RateLimit | null;
+  perRecipient: RateLimit | null;
+}
+
+export interface BucketState {
+  sessionId: string;
+  recipient: string | null; // null: the session's global bucket
+  tokens: number;
+  capacity: number;
+  retryAfterMs: number; // until the next token, 0 when one is available
+}
+
+// Sending now would exceed a limit; the message may go out after retryAfterMs
+export class RateLimitError extends ApiError {
+  constructor(readonly retryAfterMs: number, message: string) {
+    super('RATE_LIMITED', message);
+    this.name = 'RateLimitError';
+  }
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const DEFAULT_GLOBAL = '30/60';
+const DEFAULT_PER_RECIPIENT = '10/60';
+
+let limits: RateLimits = loadRateLimits();
+const buckets = new Map<string, Bucket>(); // "<sessionId>" or "<sessionId>|<recipient JID>"
+
+function parseLimit(name: string, value: string): RateLimit | null {
+  if (value.trim() === 'off') {
+    return null;
+  }
+
+  const match = value.trim().match(/^(\d+)\/(\d+)$/);
+  if (!match || parseInt(match[1]) === 0 || parseInt(match[2]) === 0) {
+    throw new Error(`Invalid ${name} "${value}" (expected <messages>/<seconds>, e.g. 10/60, or off)`);
+  }
+  return { capacity: parseInt(match[1]), windowSeconds: parseInt(match[2]) };
+}
+
+export function loadRateLimits(env: NodeJS.ProcessEnv = process.env): RateLimits {
+  return {
+    global: parseLimit('RATE_LIMIT_GLOBAL', env.RATE_LIMIT_GLOBAL || DEFAULT_GLOBAL),
+    perRecipient: parseLimit('RATE_LIMIT_PER_RECIPIENT', env.RATE_LIMIT_PER_RECIPIENT || DEFAULT_PER_RECIPIENT),
+  };
+}
+
+function limitFor(key: string): RateLimit | null {
+  return key.includes('|') ? limits.perRecipient : limits.global;
+}
+
+// Tokens refill continuously, so a bucket is computed from its last update rather than by a timer
+function current(key: string, limit: RateLimit, now: number): Bucket {
+  const bucket = buckets.get(key);
+  if (!bucket) {
+    return { tokens: limit.capacity, updatedAt: now };
+  }
+  const refilled = ((now - bucket.updatedAt) / (limit.windowSeconds * 1000)) * limit.capacity;
+  return { tokens: Math.min(limit.capacity, bucket.tokens + refilled), updatedAt: now };
+}
+
+function waitFor(bucket: Bucket, limit: RateLimit): number {
+  return bucket.tokens >= 1 ? 0 : Math.ceil(((1 - bucket.tokens) / limit.capacity) * limit.windowSeconds * 1000);
+}
+
+// Take a token from the session's global bucket and the recipient's, or throw without taking any
+export function takeSendToken(sessionId: string, recipient: string) {
+  const now = Date.now();
+  const keys = [sessionId, `${sessionId}|${recipient}`];
+  const state = keys.flatMap(key => {
+    const limit = limitFor(key);
+    return limit ? [{ key, limit, bucket: current(key, limit, now) }] : [];
+  });
+
+  const retryAfterMs = Math.max(0, ...state.map(({ bucket, limit }) => waitFor(bucket, limit)));
+  if (retryAfterMs > 0) {
+    const limited = state.find(({ bucket }) => bucket.tokens < 1)!;
+    throw new RateLimitError(
+      retryAfterMs,
+      limited.key.includes('|') ? `Too many messages to ${recipient}` : 'Too many messages sent by this session'
+    );
+  }
+
+  for (const { key, bucket } of state) {
+    buckets.set(key, { tokens: bucket.tokens - 1, updatedAt: now });
+  }
+}
+
+// Buckets that are not full; a full bucket is the same as one never used, and is dropped
+export function getRateLimitState(): { limits: RateLimits; buckets: BucketState[] } {
+  const now = Date.now();
+  const state: BucketState[] = [];
+
+  for (const key of Array.from(buckets.keys())) {
+    const limit = limitFor(key);
+    const bucket = limit && current(key, limit, now);
+    if (!limit || !bucket || bucket.tokens >= limit.capacity) {
+      buckets.delete(key);
+      continue;
+    }
+
+    const [sessionId, recipient = null] = key.split('|');
+    state.push({
+      sessionId,
+      recipient,
+      tokens: Math.floor(bucket.tokens * 100) / 100,
+      capacity: limit.capacity,
+      retryAfterMs: waitFor(bucket, limit),
+    });
+  }
+
+  return { limits, buckets: state };
+}
+
+// Validates RATE_LIMIT_* at startup; tests pass their own limits
+export function initializeRateLimits(config: RateLimits = loadRateLimits()) {
+  limits = config;
+  buckets.clear();
+
+  const describe = (limit: RateLimit | null) => (limit ? `${limit.capacity}/${limit.windowSeconds}s` : 'off');
+  logger.info(`Send rate limits: ${describe(limits.global)} per session, ${describe(limits.perRecipient)} per recipient`);
+}
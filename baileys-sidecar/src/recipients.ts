@@ -0,0 +1,109 @@
+import { WAMessageKey, isPnUser, jidDecode, jidNormalizedUser } from '@whiskeysockets/baileys';
+import { WhatsAppTransport } from './transport.js';
+import { ApiError } from './errors.js';
+
+// Registration lookups are cached per session: a send should not cost a WhatsApp query each time
+const REGISTERED_TTL_MS = 24 * 60 * 60 * 1000;
+const UNREGISTERED_TTL_MS = 10 * 60 * 1000; // a number may join WhatsApp at any time
+export const MAX_CHECK_BATCH = 50;
+
+export interface NumberCheck {
+  input: string;
+  jid: string | null; // canonical JID, null when the number is not on WhatsApp
+  exists: boolean;
+}
+
+const lookups = new Map<string, Map<string, { jid: string | null; expiresAt: number }>>();
+
+// A phone number in any format, or a JID (group, LID, ...) kept as is apart from its device suffix
+export function normalizeJid(input: string): string {
+  const value = String(input).trim();
+  if (value.includes('@')) {
+    const jid = jidNormalizedUser(value);
+    if (!jidDecode(jid)?.user) {
+      throw new ApiError('INVALID_JID', `Invalid JID: ${input}`);
+    }
+    return jid;
+  }
+
+  const digits = value.replace(/\D/g, '');
+  if (!digits) {
+    throw new ApiError('INVALID_JID', `Not a phone number or JID: ${input}`);
+  }
+  return `${digits}@s.whatsapp.net`;
+}
+
+function sessionCache(sessionId: string) {
+  let cache = lookups.get(sessionId);
+  if (!cache) {
+    cache = new Map();
+    lookups.set(sessionId, cache);
+  }
+  return cache;
+}
+
+// onWhatsApp only lists registered numbers, under their canonical JID, which is not always the
+// number asked for (e.g. Brazilian mobiles with or without the extra 9). Numbers without an exact
+// match in the batch answer are asked again one by one, so their answer cannot be mistaken.
+async function queryNumbers(transport: WhatsAppTransport, jids: string[]): Promise<Map<string, string | null>> {
+  const query = async (batch: string[]) => {
+    const results = await transport.onWhatsApp(...batch);
+    if (!results) {
+      throw new Error('WhatsApp number lookup failed');
+    }
+    return results.filter(result => result.exists).map(result => jidNormalizedUser(result.jid));
+  };
+
+  const found = new Map<string, string | null>();
+  const registered = new Set(await query(jids));
+  for (const jid of jids) {
+    if (registered.has(jid)) {
+      found.set(jid, jid);
+    }
+  }
+  for (const jid of jids.filter(jid => !found.has(jid))) {
+    const [canonical] = await query([jid]);
+    found.set(jid, canonical ?? null);
+  }
+  return found;
+}
+
+// The member who sent a group message, by phone number when WhatsApp gives one (LID-addressed
+// groups put the LID in `participant` and the phone number in `participantAlt`)
+export function participantJid(key: WAMessageKey): string | null {
+  if (!key.participant || key.fromMe) {
+    return null;
+  }
+  const jid = [key.participant, key.participantAlt].find(isPnUser) ?? key.participant;
+  return jidNormalizedUser(jid);
+}
+
+// Lookups answered to a deleted session's account are not reused by a new session of the same id
+export function forgetSessionLookups(sessionId: string) {
+  lookups.delete(sessionId);
+}
+
+// Whether each phone number is on WhatsApp, and under which JID
+export async function lookupNumbers(sessionId: string, transport: WhatsAppTransport, inputs: string[]): Promise<NumberCheck[]> {
+  const jids = inputs.map(input => {
+    const jid = normalizeJid(input);
+    if (!isPnUser(jid)) {
+      throw new ApiError('INVALID_JID', `Not a phone number: ${input}`);
+    }
+    return jid;
+  });
+
+  const cache = sessionCache(sessionId);
+  const now = Date.now();
+  const missing = Array.from(new Set(jids.filter(jid => !((cache.get(jid)?.expiresAt ?? 0) > now))));
+  if (missing.length > 0) {
+    for (const [jid, canonical] of await queryNumbers(transport, missing)) {
+      cache.set(jid, { jid: canonical, expiresAt: now + (canonical ? REGISTERED_TTL_MS : UNREGISTERED_TTL_MS) });
+    }
+  }
+
+  return inputs.map((input, i) => {
+    const jid = cache.get(jids[i])!.jid;
+    return { input, jid, exists: jid !== null };
+  });
+}
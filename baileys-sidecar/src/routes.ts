@@ -1,267 +1,939 @@
-import { Express, Request, Response } from 'express';
+import { Express, NextFunction, Request, Response } from 'express';
+import { z } from 'zod';
+import { WhatsAppSession } from './whatsapp.js';
 import {
-  sendTextMessage,
-  sendAudioMessage,
-  getConnectionStatus,
-  getCurrentQR,
-  getWhatsAppSocket,
-  getVoiceStats,
-  listDownloadedVoices,
-} from './whatsapp.js';
+  DEFAULT_SESSION_ID,
+  getSession,
+  listSessions,
+  createSession,
+  deleteSession,
+} from './sessions.js';
 import {
-  downloadVoicesFromChat,
-  downloadVoicesFromAllChats,
-  getDownloadProgress,
-  stopDownload
+  DownloadJobView,
+  cancelDownloadJob,
+  createDownloadJob,
+  getDownloadJob,
+  listDownloadJobs,
+  pauseDownloadJob,
+  resumeDownloadJob,
 } from './voiceDownloader.js';
+import { authenticate } from './auth.js';
+import { OutboundPayload, enqueueMessage, getOutboundMessage, releasePayload, sendTracked } from './messageQueue.js';
+import { getWebhookDeliveries } from './webhooks.js';
+import { streamEvents } from './eventStream.js';
+import { cachedMp3 } from './audio.js';
+import {
+  acceptAudioUpload,
+  acceptUpload,
+  removeUpload,
+  resolveAudioPath,
+  saveBase64Upload,
+  MAX_AUDIO_BYTES,
+} from './uploads.js';
+import { MEDIA_KINDS, MEDIA_MAX_BYTES, OutboundMedia, sniffMimetype } from './media.js';
+import { getChatMessages, getStoredChat, listChats } from './messageStore.js';
+import { getContactActivity } from './contactActivity.js';
+import { streamVoiceArchive } from './voiceExport.js';
+import { getRateLimitState } from './rateLimits.js';
+import {
+  ScheduledPayload,
+  cancelSchedule,
+  createSchedule,
+  getSchedule,
+  listSchedules,
+  pauseSchedule,
+  resumeSchedule,
+} from './scheduler.js';
+import { renderMetrics } from './metrics.js';
+import { checkReadiness } from './health.js';
+import { ApiError, ErrorCode, asApiError } from './errors.js';
+import { ApiRouter, handleErrors, handleNotFound } from './api.js';
+import { buildOpenApiDocument } from './openapi.js';
+import {
+  ChatMessagesQuery,
+  ChatMessagesResponse,
+  ChatsResponse,
+  CheckNumbersBody,
+  ContactActivityQuery,
+  ContactActivityResponse,
+  ConnectionEventsResponse,
+  CreateSessionBody,
+  DeliveriesQuery,
+  DeliveriesResponse,
+  DownloadAllBody,
+  DownloadChatBody,
+  DownloadJobBody,
+  DownloadJobResponse,
+  DownloadJobSchema,
+  DownloadJobsResponse,
+  DownloadProgressResponse,
+  DownloadQueuedResponse,
+  DownloadStopResponse,
+  GroupsResponse,
+  HealthResponse,
+  IdParams,
+  JidParams,
+  LivenessResponse,
+  NumberChecksResponse,
+  OutboundMessageSchema,
+  PublicReadinessResponse,
+  QrResponse,
+  QueuedResponse,
+  RateLimitStateResponse,
+  ReadinessQuery,
+  ReadinessResponse,
+  ScheduleBody,
+  ScheduleResponse,
+  ScheduleSchema,
+  SchedulesResponse,
+  SendAudioBody,
+  SendMediaBody,
+  SendTextBody,
+  SentResponse,
+  SessionCreatedResponse,
+  SessionListResponse,
+  SessionStatusResponse,
+  StatusResponse,
+  Success,
+  VoiceAudioQuery,
+  VoiceExportBody,
+  VoiceListQuery,
+  VoiceListResponse,
+  VoiceStatsResponse,
+} from './schemas.js';
 import pino from 'pino';
 import QRCode from 'qrcode';
+import fs from 'fs';
+import path from 'path';
 
 const logger = pino({ level: 'info' });
 
-export function setupRoutes(app: Express) {
-  // Health check
-  app.get('/health', (req: Request, res: Response) => {
-    res.json({ status: 'ok' });
-  });
+// Every direct send may fail with these; queued sends are checked when they go out
+const SEND_ERRORS: ErrorCode[] = ['INVALID_RECIPIENT', 'RECIPIENT_NOT_ON_WHATSAPP', 'NOT_CONNECTED', 'RATE_LIMITED', 'SEND_FAILED'];
+const AUDIO_ERRORS: ErrorCode[] = ['AUDIO_NOT_FOUND', 'AUDIO_TOO_LARGE', 'INVALID_BASE64', 'INVALID_UPLOAD', 'PATH_NOT_ALLOWED'];
+const SEND_RESPONSES = { 200: SentResponse, 202: QueuedResponse };
 
-  // Get connection status
-  app.get('/status', (req: Request, res: Response) => {
-    const status = getConnectionStatus();
-    res.json({ status });
-  });
-
-  // Get QR code (protected)
-  app.get('/qr', (req: Request, res: Response) => {
-    // Check API key
-    const apiKey = process.env.API_KEY;
-    if (apiKey) {
-      const providedKey = req.headers['x-api-key'];
-      if (!providedKey || providedKey !== apiKey) {
-        return res.status(403).json({ error: 'Invalid or missing API key' });
-      }
+export function setupRoutes(app: Express) {
+  const publicApi = new ApiRouter(true);
+  const api = new ApiRouter();
+  const sessionApi = new ApiRouter();
+
+  setupPublicRoutes(publicApi);
+  setupAdminRoutes(api);
+  setupSessionRoutes(sessionApi);
+
+  // Generated once every route is registered; like every route but the health checks, it needs a key
+  let document: ReturnType<typeof buildOpenApiDocument> | null = null;
+  api.get(
+    '/openapi.json',
+    { summary: 'This OpenAPI document', responses: { 200: z.object({ openapi: z.string(), paths: z.record(z.string(), z.unknown()) }) } },
+    (req, res) => {
+      document ??= buildOpenApiDocument([
+        { api: publicApi },
+        { api },
+        { api: sessionApi },
+        { api: sessionApi, prefix: '/sessions/:sessionId', errors: ['SESSION_NOT_FOUND'] },
+      ]);
+      res.json(document);
     }
+  );
 
-    const qr = getCurrentQR();
-    if (qr) {
-      res.json({ qr });
-    } else {
-      res.status(404).json({ error: 'No QR code available' });
-    }
-  });
+  app.use(publicApi.router);
 
-  // Get QR code as PNG image (protected)
-  app.get('/qr/image', async (req: Request, res: Response) => {
-    // Check API key
-    const apiKey = process.env.API_KEY;
-    if (apiKey) {
-      const providedKey = req.headers['x-api-key'];
-      if (!providedKey || providedKey !== apiKey) {
-        return res.status(403).send('<html><body><h1>Access Denied</h1><p>Invalid or missing API key</p></body></html>');
-      }
-    }
+  // Every route below requires a valid x-api-key
+  app.use(authenticate());
+  app.use(api.router);
 
-    try {
-      const qr = getCurrentQR();
-      if (!qr) {
-        return res.status(404).send('<html><body><h1>No QR code available</h1><p>Please wait for WhatsApp connection to initialize...</p></body></html>');
-      }
+  // Session-scoped routes: /sessions/:sessionId/..., and the unscoped aliases for the default session
+  app.use('/sessions/:sessionId', resolveSession, sessionApi.router);
+  app.use('/', resolveSession, sessionApi.router);
 
-      // Generate QR code as PNG buffer
-      const qrImageBuffer = await QRCode.toBuffer(qr, {
-        type: 'png',
-        width: 400,
-        margin: 2,
-      });
+  app.use(handleNotFound);
+  app.use(handleErrors);
+}
 
-      res.setHeader('Content-Type', 'image/png');
-      res.send(qrImageBuffer);
-    } catch (error: any) {
-      logger.error('Error generating QR code image:', error);
-      res.status(500).json({ error: 'Failed to generate QR code image' });
-    }
-  });
+function resolveSession(req: Request, res: Response, next: NextFunction) {
+  const id = req.params.sessionId || DEFAULT_SESSION_ID;
+  const session = getSession(id);
 
-  // Send text message
-  app.post('/send/text', async (req: Request, res: Response) => {
-    try {
-      const { to, text } = req.body;
+  if (!session) {
+    return next(new ApiError('SESSION_NOT_FOUND', `Session not found: ${id}`));
+  }
 
-      if (!to || !text) {
-        return res.status(400).json({
-          success: false,
-          error: 'Missing required fields: to, text',
-        });
-      }
+  res.locals.session = session;
+  next();
+}
 
-      logger.info(`Received text send request: to=${to}`);
+function currentSession(res: Response): WhatsAppSession {
+  return res.locals.session;
+}
 
-      const messageId = await sendTextMessage(to, text);
+// Queued sends are persisted and retried until the socket is open;
+// direct sends fail straight away when WhatsApp is not connected
+async function send(res: Response<z.input<(typeof SEND_RESPONSES)[keyof typeof SEND_RESPONSES]>>, to: string, payload: OutboundPayload, queued = false) {
+  const session = currentSession(res);
 
-      res.json({
-        success: true,
-        messageId,
-      });
-    } catch (error: any) {
-      logger.error('Error sending text message:', error);
-      res.status(500).json({
-        success: false,
-        error: error.message || 'Failed to send text message',
-      });
+  // A queued send is checked up front when connected, so an unregistered number is refused
+  // right away; made while disconnected, it is checked when it goes out and fails then.
+  // Direct sends are checked as they go out.
+  if (queued && session.getConnectionStatus() === 'connected') {
+    try {
+      await session.resolveRecipient(to);
+    } catch (error) {
+      releasePayload(payload);
+      throw asApiError(error, 'SEND_FAILED');
     }
+  }
+
+  if (queued) {
+    const message = enqueueMessage(session.id, to, payload);
+    return res.status(202).json({
+      success: true,
+      id: message.id,
+      status: message.status,
+    });
+  }
+
+  try {
+    const message = await sendTracked(session.id, to, payload);
+    res.json({
+      success: true,
+      id: message.id,
+      messageId: message.messageId,
+    });
+  } catch (error) {
+    throw asApiError(error, 'SEND_FAILED');
+  }
+}
+
+function setupPublicRoutes(api: ApiRouter) {
+  // Health check (kept for existing probes, same as /health/live)
+  api.get('/health', { summary: 'Health check', responses: { 200: HealthResponse } }, (req, res) => {
+    res.json({ status: 'ok' });
   });
 
-  // Send audio message
-  app.post('/send/audio', async (req: Request, res: Response) => {
-    try {
-      const { to, audioPath } = req.body;
+  // Liveness: the process answers; restarting it would not fix a missing QR scan
+  api.get('/health/live', { summary: 'Liveness', responses: { 200: LivenessResponse } }, (req, res) => {
+    res.json({ status: 'ok', uptimeSeconds: Math.floor(process.uptime()) });
+  });
 
-      if (!to || !audioPath) {
-        return res.status(400).json({
-          success: false,
-          error: 'Missing required fields: to, audioPath',
-        });
-      }
+  // Readiness: 503 until every session (or ?session=) can send. The report is behind a key
+  // (/health/ready/details): it names the sessions and their paths on disk.
+  api.get(
+    '/health/ready',
+    {
+      summary: 'Readiness: 503 until every session (or the one asked for) can send',
+      query: ReadinessQuery,
+      responses: { 200: PublicReadinessResponse, 503: PublicReadinessResponse },
+      errors: ['SESSION_NOT_FOUND'],
+    },
+    async (req, res) => {
+      const { ready } = await checkReadiness(readinessSessions(req.query.session));
+      res.status(ready ? 200 : 503).json({ ready });
+    }
+  );
+}
 
-      logger.info(`Received audio send request: to=${to}, audioPath=${audioPath}`);
+function readinessSessions(id: string | undefined): WhatsAppSession[] {
+  if (!id) {
+    return listSessions();
+  }
+  const session = getSession(id);
+  if (!session) {
+    throw new ApiError('SESSION_NOT_FOUND', `Session not found: ${id}`);
+  }
+  return [session];
+}
 
-      const messageId = await sendAudioMessage(to, audioPath);
+function setupAdminRoutes(api: ApiRouter) {
+  // What /health/ready checked, session by session
+  api.get(
+    '/health/ready/details',
+    {
+      summary: 'Readiness report of every session (or the one asked for)',
+      scope: 'metrics',
+      query: ReadinessQuery,
+      responses: { 200: ReadinessResponse, 503: ReadinessResponse },
+      errors: ['SESSION_NOT_FOUND'],
+    },
+    async (req, res) => {
+      const readiness = await checkReadiness(readinessSessions(req.query.session));
+      res.status(readiness.ready ? 200 : 503).json({ status: readiness.ready ? 'ready' : 'not_ready', ...readiness });
+    }
+  );
+
+  // Sessions
+  api.get('/sessions', { summary: 'List sessions', scope: 'admin', responses: { 200: SessionListResponse } }, (req, res) => {
+    const sessions = listSessions().map(session => ({
+      id: session.id,
+      status: session.getConnectionStatus(),
+    }));
+    res.json({ total: sessions.length, sessions });
+  });
 
-      res.json({
+  api.post(
+    '/sessions',
+    {
+      summary: 'Create a session and start its QR flow',
+      scope: 'admin',
+      body: CreateSessionBody,
+      responses: { 201: SessionCreatedResponse },
+      errors: ['INVALID_SESSION_ID', 'SESSION_EXISTS'],
+    },
+    async (req, res) => {
+      const session = await createSession(req.body.id);
+      res.status(201).json({
         success: true,
-        messageId,
+        id: session.id,
+        status: session.getConnectionStatus(),
       });
-    } catch (error: any) {
-      logger.error('Error sending audio message:', error);
-      res.status(500).json({
-        success: false,
-        error: error.message || 'Failed to send audio message',
+    }
+  );
+
+  api.delete(
+    '/sessions/:id',
+    {
+      summary: 'Stop a session and remove its creds',
+      scope: 'admin',
+      params: IdParams,
+      responses: { 200: Success },
+      errors: ['SESSION_NOT_FOUND', 'SESSION_PROTECTED'],
+    },
+    (req, res) => {
+      deleteSession(req.params.id);
+      res.json({ success: true });
+    }
+  );
+
+  // Webhook deliveries that failed (still retrying, or given up)
+  api.get(
+    '/webhooks/deliveries',
+    { summary: 'Failed webhook deliveries', scope: 'admin', query: DeliveriesQuery, responses: { 200: DeliveriesResponse } },
+    (req, res) => {
+      const deliveries = getWebhookDeliveries(req.query.status);
+      res.json({
+        total: deliveries.length,
+        deliveries,
       });
     }
+  );
+
+  // Send rate limits and the buckets currently below capacity
+  api.get('/rate-limits', { summary: 'Send rate limits', scope: 'admin', responses: { 200: RateLimitStateResponse } }, (req, res) => {
+    res.json(getRateLimitState());
   });
 
-  // Download voice messages from a specific chat (human-like progressive download)
-  app.post('/download/voices', async (req: Request, res: Response) => {
-    try {
-      const sock = getWhatsAppSocket();
-      if (!sock) {
-        return res.status(503).json({
-          success: false,
-          error: 'WhatsApp not connected',
-        });
-      }
+  // Prometheus metrics, in the text exposition format
+  api.get('/metrics', { summary: 'Prometheus metrics', scope: 'metrics', content: 'text/plain' }, async (req, res) => {
+    const { contentType, body } = await renderMetrics();
+    // Not res.send(), which would rewrite the content type's parameters
+    res.setHeader('Content-Type', contentType);
+    res.end(body);
+  });
+}
 
-      const { chatId, messagesLimit = 100, outputDir = './downloaded_voices' } = req.body;
+function setupSessionRoutes(api: ApiRouter) {
+  // Get connection status
+  api.get('/status', { summary: 'Connection status', responses: { 200: StatusResponse } }, (req, res) => {
+    const status = currentSession(res).getConnectionStatus();
+    res.json({ status });
+  });
 
-      if (!chatId) {
-        return res.status(400).json({
-          success: false,
-          error: 'chatId is required (format: +33XXXXXXXXX@s.whatsapp.net or +33XXXXXXXXX)',
-        });
+  // Live connection, QR code, reconnect and download progress events (Server-Sent Events)
+  api.get('/events', { summary: 'Live events (Server-Sent Events)', content: 'text/event-stream' }, (req, res) => {
+    void streamEvents(req, res, currentSession(res));
+  });
+
+  // Recent connection lifecycle events (opened, closed, reconnects, logouts), oldest first
+  api.get('/connection/events', { summary: 'Recent connection events', responses: { 200: ConnectionEventsResponse } }, (req, res) => {
+    const events = currentSession(res).supervisor.getEvents();
+    res.json({ total: events.length, events });
+  });
+
+  // Unlink the device and remove its creds; the session then waits for /session/relink
+  api.post(
+    '/session/logout',
+    { summary: 'Unlink the device and remove its creds', scope: 'admin', responses: { 200: SessionStatusResponse } },
+    async (req, res) => {
+      const session = currentSession(res);
+      await session.logout();
+      res.json({ success: true, status: session.getConnectionStatus() });
+    }
+  );
+
+  // Remove the creds and start over: a new QR code follows on /qr and /events
+  api.post(
+    '/session/relink',
+    { summary: 'Start over with a new QR code', scope: 'admin', responses: { 200: SessionStatusResponse } },
+    async (req, res) => {
+      const session = currentSession(res);
+      await session.relink();
+      res.json({ success: true, status: session.getConnectionStatus() });
+    }
+  );
+
+  // Get QR code
+  api.get(
+    '/qr',
+    { summary: 'Current QR code', scope: 'admin', responses: { 200: QrResponse }, errors: ['QR_NOT_AVAILABLE'] },
+    (req, res) => {
+      const qr = currentSession(res).getCurrentQR();
+      if (!qr) {
+        throw new ApiError('QR_NOT_AVAILABLE', 'No QR code available');
       }
+      res.json({ qr });
+    }
+  );
 
-      // Formater le chatId si nécessaire
-      const formattedChatId = chatId.includes('@') ? chatId : `${chatId.replace(/\D/g, '')}@s.whatsapp.net`;
+  // Get QR code as PNG image; an HTML page asks to wait while there is none
+  api.get('/qr/image', { summary: 'Current QR code as a PNG image', scope: 'admin', content: 'image/png' }, async (req, res) => {
+    const qr = currentSession(res).getCurrentQR();
+    if (!qr) {
+      return res.status(404).send('<html><body><h1>No QR code available</h1><p>Please wait for WhatsApp connection to initialize...</p></body></html>');
+    }
 
-      logger.info(`🎙️ Starting progressive voice download for ${formattedChatId}...`);
+    // Generate QR code as PNG buffer
+    const qrImageBuffer = await QRCode.toBuffer(qr, {
+      type: 'png',
+      width: 400,
+      margin: 2,
+    });
 
-      // Start download in background
-      downloadVoicesFromChat(sock, formattedChatId, messagesLimit, outputDir)
-        .then(progress => {
-          logger.info('Download completed:', progress);
-        })
-        .catch(error => {
-          logger.error('Download failed:', error);
-        });
+    res.setHeader('Content-Type', 'image/png');
+    res.send(qrImageBuffer);
+  });
 
-      res.json({
-        success: true,
-        message: `Voice download started for chat: ${formattedChatId}`,
-        info: 'Download will proceed slowly to avoid detection (2-8 sec between messages)',
-        usage: 'Use /download/progress to track progress',
-      });
+  // Send text message
+  api.post(
+    '/send/text',
+    {
+      summary: 'Send a text message',
+      scope: 'send',
+      body: SendTextBody,
+      idempotent: true,
+      responses: SEND_RESPONSES,
+      errors: SEND_ERRORS,
+    },
+    async (req, res) => {
+      const { to, text, queue } = req.body;
+      logger.info(`Received text send request: to=${to}`);
 
-    } catch (error: any) {
-      logger.error('Error starting voice download:', error);
-      res.status(500).json({
-        success: false,
-        error: error.message || 'Failed to start download',
-      });
+      await send(res, to, { type: 'text', text }, queue);
     }
+  );
+
+  // Send audio message: multipart `audio` file, base64 `audio` field, or an `audioPath` under AUDIO_ROOT
+  api.post(
+    '/send/audio',
+    {
+      summary: 'Send a voice note',
+      description: 'Any format ffmpeg reads: a multipart `audio` file, base64 `audio`, or an `audioPath` under AUDIO_ROOT.',
+      scope: 'send',
+      upload: { field: 'audio', accept: acceptAudioUpload },
+      body: SendAudioBody,
+      idempotent: true,
+      responses: SEND_RESPONSES,
+      errors: [...SEND_ERRORS, ...AUDIO_ERRORS, 'INVALID_AUDIO'],
+    },
+    async (req, res) => {
+      let upload: string | null = req.file?.path || null;
+
+      try {
+        const { to, audio, audioPath, queue } = req.body;
+
+        if (!upload && !audio && !audioPath) {
+          throw new ApiError('INVALID_REQUEST', 'Missing required fields: audio (file or base64) or audioPath');
+        }
+
+        if (!upload && audio) {
+          upload = saveBase64Upload('audio', audio, MAX_AUDIO_BYTES);
+        }
+
+        const payload: OutboundPayload = upload
+          ? { type: 'audio', audioPath: upload, temporary: true }
+          : { type: 'audio', audioPath: resolveAudioPath(audioPath!) };
+
+        logger.info(`Received audio send request: to=${to}, ${upload ? 'uploaded audio' : `audioPath=${audioPath}`}`);
+
+        // From here the upload belongs to the outbound message, which removes it once sent or failed
+        upload = null;
+        await send(res, to, payload, queue);
+      } finally {
+        if (upload) {
+          removeUpload(upload);
+        }
+      }
+    }
+  );
+
+  // Send image, video or document: multipart `file` or base64 `file`, with an optional caption
+  for (const kind of MEDIA_KINDS) {
+    api.post(
+      `/send/${kind}`,
+      {
+        summary: `Send ${kind === 'image' ? 'an' : 'a'} ${kind}`,
+        description: 'A multipart `file` or base64 `file`; the mimetype is sniffed from the content.',
+        scope: 'send',
+        upload: { field: 'file', accept: acceptUpload('file', MEDIA_MAX_BYTES[kind]) },
+        body: SendMediaBody,
+        idempotent: true,
+        responses: SEND_RESPONSES,
+        errors: [...SEND_ERRORS, 'FILE_TOO_LARGE', 'INVALID_BASE64', 'INVALID_UPLOAD', 'MEDIA_NOT_FOUND', 'UNSUPPORTED_MEDIA'],
+      },
+      async (req, res) => {
+        let upload: string | null = req.file?.path || null;
+
+        try {
+          const { to, file, caption, fileName, mimetype, queue } = req.body;
+
+          if (!upload && !file) {
+            throw new ApiError('INVALID_REQUEST', 'Missing required field: file (upload or base64)');
+          }
+
+          if (!upload) {
+            upload = saveBase64Upload('file', file, MEDIA_MAX_BYTES[kind]);
+          }
+
+          const media: OutboundMedia = {
+            kind,
+            filePath: upload,
+            mimetype: await sniffMimetype(kind, upload, mimetype || req.file?.mimetype),
+            caption: caption || undefined,
+            fileName: kind === 'document' ? fileName || req.file?.originalname || 'document' : undefined,
+          };
+
+          logger.info(`Received ${kind} send request: to=${to}, mimetype=${media.mimetype}`);
+
+          // From here the upload belongs to the outbound message, which removes it once sent or failed
+          upload = null;
+          await send(res, to, { type: 'media', media }, queue);
+        } finally {
+          if (upload) {
+            removeUpload(upload);
+          }
+        }
+      }
+    );
+  }
+
+  // Delivery status of a sent or queued message (queue id or WhatsApp message id)
+  api.get(
+    '/messages/:id',
+    {
+      summary: 'Delivery status of a message (queue id or WhatsApp message id)',
+      scope: 'send',
+      params: IdParams,
+      responses: { 200: OutboundMessageSchema },
+      errors: ['MESSAGE_NOT_FOUND'],
+    },
+    (req, res) => {
+      const message = getOutboundMessage(currentSession(res).id, req.params.id);
+      if (!message) {
+        throw new ApiError('MESSAGE_NOT_FOUND', `Message not found: ${req.params.id}`);
+      }
+      res.json(message);
+    }
+  );
+
+  // Groups the account belongs to, with their participants; send to them with the group `id` as `to`
+  api.get(
+    '/groups',
+    {
+      summary: 'Groups the account belongs to',
+      scope: 'messages:read',
+      connected: true,
+      responses: { 200: GroupsResponse },
+      errors: ['WHATSAPP_ERROR'],
+    },
+    async (req, res) => {
+      try {
+        const groups = await currentSession(res).listGroups();
+        res.json({ total: groups.length, groups });
+      } catch (error) {
+        throw asApiError(error, 'WHATSAPP_ERROR');
+      }
+    }
+  );
+
+  // Which phone numbers are on WhatsApp, and their canonical JID: { numbers: ["+33612345678", ...] }
+  api.post(
+    '/contacts/check',
+    {
+      summary: 'Which phone numbers are on WhatsApp, and their canonical JID',
+      scope: 'send',
+      connected: true,
+      body: CheckNumbersBody,
+      invalidCode: 'INVALID_NUMBERS',
+      responses: { 200: NumberChecksResponse },
+      errors: ['INVALID_JID', 'WHATSAPP_ERROR'],
+    },
+    async (req, res) => {
+      try {
+        res.json({ results: await currentSession(res).checkNumbers(req.body.numbers) });
+      } catch (error) {
+        throw asApiError(error, 'WHATSAPP_ERROR');
+      }
+    }
+  );
+
+  // Messages exchanged with each contact over rolling windows, longest without a message from us
+  // first: ?notContactedDays=30 for who to reach out to
+  api.get(
+    '/contacts/activity',
+    {
+      summary: 'Messages exchanged with each contact, longest without a message from us first',
+      scope: 'messages:read',
+      query: ContactActivityQuery,
+      responses: { 200: ContactActivityResponse },
+    },
+    (req, res) => {
+      res.json({ contacts: getContactActivity(currentSession(res).id, { notContactedDays: req.query.notContactedDays }) });
+    }
+  );
+
+  // Schedule a text or audio message: `sendAt` for a single send, or `cron` (with an optional
+  // IANA `timezone`) for a recurring one. Audio is given the same ways as /send/audio.
+  for (const schedulePath of ['/schedule', '/schedules']) {
+    api.post(
+      schedulePath,
+      {
+        summary: 'Schedule a text or audio message',
+        description: '`sendAt` for a single send, or `cron` (with an optional IANA `timezone`) for a recurring one.',
+        scope: 'send',
+        upload: { field: 'audio', accept: acceptAudioUpload },
+        body: ScheduleBody,
+        invalidCode: 'INVALID_SCHEDULE',
+        responses: { 201: ScheduleResponse },
+        errors: ['INVALID_RECIPIENT', ...AUDIO_ERRORS],
+      },
+      (req, res) => {
+        let upload: string | null = req.file?.path || null;
+
+        try {
+          const { to, text, audio, audioPath, sendAt, cron, timezone } = req.body;
+
+          if (!text && !upload && !audio && !audioPath) {
+            throw new ApiError('INVALID_SCHEDULE', 'Missing required fields: text or audio (file, base64 or audioPath)');
+          }
+
+          if (!text && !upload && audio) {
+            upload = saveBase64Upload('audio', audio, MAX_AUDIO_BYTES);
+          }
+
+          let payload: ScheduledPayload;
+          if (text) {
+            payload = { type: 'text', text };
+          } else if (upload) {
+            payload = { type: 'audio', audioPath: upload, owned: true };
+          } else {
+            payload = { type: 'audio', audioPath: resolveAudioPath(audioPath!) };
+          }
+
+          const schedule = createSchedule(currentSession(res).id, to, payload, { sendAt, cron, timezone });
+          // The schedule moved the upload into its own storage
+          upload = null;
+          res.status(201).json({ success: true, schedule });
+        } finally {
+          if (upload) {
+            removeUpload(upload);
+          }
+        }
+      }
+    );
+  }
+
+  api.get('/schedules', { summary: 'List schedules', scope: 'send', responses: { 200: SchedulesResponse } }, (req, res) => {
+    const schedules = listSchedules(currentSession(res).id);
+    res.json({ total: schedules.length, schedules });
   });
 
-  // Download voice messages from ALL conversations (most recent first)
-  app.post('/download/voices/all', async (req: Request, res: Response) => {
-    try {
-      const sock = getWhatsAppSocket();
-      if (!sock) {
-        return res.status(503).json({
-          success: false,
-          error: 'WhatsApp not connected',
-        });
+  // A schedule with the outcome of its last firings
+  api.get(
+    '/schedules/:id',
+    {
+      summary: 'A schedule with the outcome of its last firings',
+      scope: 'send',
+      params: IdParams,
+      responses: { 200: ScheduleSchema },
+      errors: ['SCHEDULE_NOT_FOUND'],
+    },
+    (req, res) => {
+      const schedule = getSchedule(currentSession(res).id, req.params.id);
+      if (!schedule) {
+        throw new ApiError('SCHEDULE_NOT_FOUND', `Schedule not found: ${req.params.id}`);
+      }
+      res.json(schedule);
+    }
+  );
+
+  const scheduleActions = { cancel: cancelSchedule, pause: pauseSchedule, resume: resumeSchedule };
+  for (const [action, apply] of Object.entries(scheduleActions)) {
+    api.post(
+      `/schedules/:id/${action}`,
+      {
+        summary: `${action[0].toUpperCase()}${action.slice(1)} a schedule`,
+        scope: 'send',
+        params: IdParams,
+        responses: { 200: ScheduleResponse },
+        errors: ['SCHEDULE_NOT_FOUND', 'INVALID_SCHEDULE_STATE'],
+      },
+      (req, res) => {
+        res.json({ success: true, schedule: apply(currentSession(res).id, req.params.id) });
       }
+    );
+  }
+
+  // Queue a voice download job: one chat when chatId is given, every chat otherwise.
+  // Jobs run one at a time with human-like pacing; the others wait in the queue.
+  api.post(
+    '/download/jobs',
+    {
+      summary: 'Queue a voice download job',
+      description: 'One chat when chatId is given, every chat otherwise. Jobs run one at a time with human-like pacing.',
+      scope: 'download',
+      body: DownloadJobBody,
+      responses: { 202: DownloadJobResponse },
+      errors: ['INVALID_JID', 'DOWNLOAD_IN_PROGRESS'],
+    },
+    (req, res) => {
+      const { chatId = null, messagesLimit } = req.body;
+      const job = createDownloadJob(currentSession(res).id, { chatId, messagesLimit });
+      res.status(202).json({ success: true, job: getDownloadJob(job.sessionId, job.id)! });
+    }
+  );
 
-      const { messagesLimit = 100, outputDir = './downloaded_voices' } = req.body;
+  api.get('/download/jobs', { summary: 'List download jobs', scope: 'download', responses: { 200: DownloadJobsResponse } }, (req, res) => {
+    res.json({ jobs: listDownloadJobs(currentSession(res).id) });
+  });
 
-      logger.info(`🎙️ Starting progressive voice download for ALL conversations...`);
+  api.get(
+    '/download/jobs/:id',
+    {
+      summary: 'A download job and its progress',
+      scope: 'download',
+      params: IdParams,
+      responses: { 200: DownloadJobSchema },
+      errors: ['JOB_NOT_FOUND'],
+    },
+    (req, res) => {
+      const job = getDownloadJob(currentSession(res).id, req.params.id);
+      if (!job) {
+        throw new ApiError('JOB_NOT_FOUND', `Download job not found: ${req.params.id}`);
+      }
+      res.json(job);
+    }
+  );
+
+  const jobActions = { cancel: cancelDownloadJob, pause: pauseDownloadJob, resume: resumeDownloadJob };
+  for (const [action, apply] of Object.entries(jobActions)) {
+    api.post(
+      `/download/jobs/:id/${action}`,
+      {
+        summary: `${action[0].toUpperCase()}${action.slice(1)} a download job`,
+        scope: 'download',
+        params: IdParams,
+        responses: { 200: DownloadJobResponse },
+        errors: ['JOB_NOT_FOUND', 'INVALID_JOB_STATE'],
+      },
+      (req, res) => {
+        res.json({ success: true, job: apply(currentSession(res).id, req.params.id) });
+      }
+    );
+  }
+
+  // Download voice messages from a specific chat (kept for older clients, same as POST /download/jobs)
+  api.post(
+    '/download/voices',
+    {
+      summary: 'Download the voice notes of a chat (same as POST /download/jobs)',
+      scope: 'download',
+      body: DownloadChatBody,
+      responses: { 200: DownloadQueuedResponse },
+      errors: ['INVALID_JID', 'DOWNLOAD_IN_PROGRESS'],
+    },
+    (req, res) => {
+      const { chatId, messagesLimit } = req.body;
+      const job = createDownloadJob(currentSession(res).id, { chatId, messagesLimit });
 
-      // Start download in background
-      downloadVoicesFromAllChats(sock, messagesLimit, outputDir)
-        .then(progress => {
-          logger.info('All downloads completed:', progress);
-        })
-        .catch(error => {
-          logger.error('Download failed:', error);
-        });
+      res.json({
+        success: true,
+        jobId: job.id,
+        message: `Voice download queued for chat: ${chatId}`,
+        info: 'Download will proceed slowly to avoid detection (0.5-2s between messages)',
+        usage: `Use /download/jobs/${job.id} to track progress`,
+      });
+    }
+  );
+
+  // Download voice messages from ALL conversations (kept for older clients, same as POST /download/jobs)
+  api.post(
+    '/download/voices/all',
+    {
+      summary: 'Download the voice notes of every chat (same as POST /download/jobs)',
+      scope: 'download',
+      body: DownloadAllBody,
+      responses: { 200: DownloadQueuedResponse },
+      errors: ['DOWNLOAD_IN_PROGRESS'],
+    },
+    (req, res) => {
+      const job = createDownloadJob(currentSession(res).id, { chatId: null, messagesLimit: req.body.messagesLimit });
 
       res.json({
         success: true,
-        message: 'Voice download started for all conversations',
+        jobId: job.id,
+        message: 'Voice download queued for all conversations',
         info: 'Download will loop through all chats with human-like timing (0.5-2s between messages, 3-8s between chats)',
-        usage: 'Use /download/progress to track progress',
+        usage: `Use /download/jobs/${job.id} to track progress`,
       });
+    }
+  );
+
+  // Progress of the session's running job, or of its latest one
+  api.get(
+    '/download/progress',
+    { summary: 'Progress of the running download job, or of the latest one', scope: 'download', responses: { 200: DownloadProgressResponse } },
+    (req, res) => {
+      const jobs = listDownloadJobs(currentSession(res).id);
+      const job = jobs.find(j => j.status === 'running') || jobs.at(-1);
+      res.json(job || { status: 'idle', total: 0, downloaded: 0, failed: 0 });
+    }
+  );
+
+  // Pause the session's running and queued jobs (resume them with /download/jobs/:id/resume)
+  api.post(
+    '/download/stop',
+    { summary: 'Pause the running and queued download jobs', scope: 'download', responses: { 200: DownloadStopResponse } },
+    (req, res) => {
+      const sessionId = currentSession(res).id;
+      const paused: DownloadJobView[] = listDownloadJobs(sessionId)
+        .filter(j => j.status === 'running' || j.status === 'queued')
+        .map(j => pauseDownloadJob(sessionId, j.id));
 
-    } catch (error: any) {
-      logger.error('Error starting voice download:', error);
-      res.status(500).json({
-        success: false,
-        error: error.message || 'Failed to start download',
+      res.json({
+        success: true,
+        message: 'Download stop requested',
+        jobIds: paused.map(j => j.id),
       });
     }
-  });
+  );
 
-  // Get download progress
-  app.get('/download/progress', (req: Request, res: Response) => {
-    const progress = getDownloadProgress();
-    res.json(progress);
+  // Chats seen in history sync and live traffic, most recent activity first
+  api.get('/chats', { summary: 'Chats, most recent activity first', scope: 'messages:read', responses: { 200: ChatsResponse } }, (req, res) => {
+    res.json({ chats: listChats(currentSession(res).id) });
   });
 
-  // Stop download
-  app.post('/download/stop', (req: Request, res: Response) => {
-    stopDownload();
-    res.json({
-      success: true,
-      message: 'Download stop requested',
-    });
-  });
+  // Stored messages of a chat, newest first: ?limit=50&before=<nextBefore of the previous page>
+  api.get(
+    '/chats/:jid/messages',
+    {
+      summary: 'Stored messages of a chat, newest first',
+      scope: 'messages:read',
+      params: JidParams,
+      query: ChatMessagesQuery,
+      responses: { 200: ChatMessagesResponse },
+      errors: ['INVALID_JID', 'CHAT_NOT_FOUND'],
+    },
+    (req, res) => {
+      const sessionId = currentSession(res).id;
+      const { jid } = req.params;
+      if (!getStoredChat(sessionId, jid)) {
+        throw new ApiError('CHAT_NOT_FOUND', `No stored messages for ${jid}`);
+      }
+
+      res.json({ chatId: jid, ...getChatMessages(sessionId, jid, req.query) });
+    }
+  );
 
   // Get voice download stats
-  app.get('/voices/stats', (req: Request, res: Response) => {
-    const stats = getVoiceStats();
-    res.json(stats);
+  api.get('/voices/stats', { summary: 'Downloaded voice statistics', scope: 'voices:read', responses: { 200: VoiceStatsResponse } }, (req, res) => {
+    res.json(currentSession(res).getVoiceStats());
   });
 
-  // List all downloaded voices
-  app.get('/voices/list', (req: Request, res: Response) => {
-    try {
-      const result = listDownloadedVoices();
-      res.json(result);
-    } catch (error: any) {
-      logger.error('Error listing voices:', error);
-      res.status(500).json({
-        success: false,
-        error: error.message || 'Failed to list voices',
+  // List downloaded voices from the index:
+  // ?contact=&participant=&direction=sent|received&from=&to=&sort=timestamp|savedAt|size|seconds&order=asc|desc&limit=&offset=
+  api.get(
+    '/voices/list',
+    { summary: 'Downloaded voices, filtered and sorted', scope: 'voices:read', query: VoiceListQuery, responses: { 200: VoiceListResponse } },
+    (req, res) => {
+      res.json(currentSession(res).listDownloadedVoices(req.query));
+    }
+  );
+
+  // Play a recording (HTTP Range supported); ?format=mp3 for browsers without Opus support
+  api.get(
+    '/voices/:id/audio',
+    {
+      summary: 'Play a recording (HTTP Range supported)',
+      description: '`format=mp3` for browsers without Opus support.',
+      scope: 'voices:read',
+      params: IdParams,
+      query: VoiceAudioQuery,
+      content: 'audio/ogg',
+      errors: ['VOICE_NOT_FOUND', 'INVALID_AUDIO'],
+    },
+    async (req, res, next) => {
+      const session = currentSession(res);
+      const voice = session.getVoice(req.params.id);
+      if (!voice || !fs.existsSync(voice.path)) {
+        throw new ApiError('VOICE_NOT_FOUND', `Voice not found: ${req.params.id}`);
+      }
+
+      const { format } = req.query;
+      const filePath = format === 'mp3' ? await cachedMp3(voice.path, session.mp3CacheKey(voice)) : voice.path;
+
+      res.setHeader('Content-Type', format === 'mp3' ? 'audio/mpeg' : 'audio/ogg');
+      res.sendFile(path.resolve(filePath), { dotfiles: 'allow' }, error => {
+        if (error && !res.headersSent) {
+          next(error);
+        }
       });
     }
-  });
+  );
+
+  // ZIP of the matching recordings plus manifest.json/manifest.csv, streamed as it is built.
+  // Body: { contact?, from?, to?, direction?, format?: ogg|mp3|wav }
+  api.post(
+    '/voices/export',
+    {
+      summary: 'ZIP of the matching recordings, with a JSON and CSV manifest',
+      scope: 'voices:read',
+      body: VoiceExportBody,
+      invalidCode: 'INVALID_QUERY',
+      content: 'application/zip',
+      errors: ['VOICE_NOT_FOUND'],
+    },
+    async (req, res) => {
+      const { format, ...filters } = req.body;
+      const session = currentSession(res);
+      const voices = session.findDownloadedVoices({ ...filters, sort: 'timestamp', order: 'asc' });
+      if (voices.length === 0) {
+        throw new ApiError('VOICE_NOT_FOUND', 'No voice matches the export filters');
+      }
+
+      const { contact } = filters;
+      const name = `voices-${contact ? contact.split('@')[0].replace(/[^\w+-]/g, '') : 'all'}-${new Date().toISOString().split('T')[0]}.zip`;
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${name}"`);
+
+      try {
+        await streamVoiceArchive(session, voices, format, res);
+      } catch (error: any) {
+        // Headers are gone once the archive started: cut the connection so the client sees a broken download
+        logger.error(`Error exporting voices: ${error.message}`);
+        res.destroy(error);
+      }
+    }
+  );
+
+  // Delete a recording and its index entry
+  api.delete(
+    '/voices/:id',
+    { summary: 'Delete a recording', scope: 'voices:write', params: IdParams, responses: { 200: Success }, errors: ['VOICE_NOT_FOUND'] },
+    (req, res) => {
+      if (!currentSession(res).deleteVoice(req.params.id)) {
+        throw new ApiError('VOICE_NOT_FOUND', `Voice not found: ${req.params.id}`);
+      }
+      res.json({ success: true });
+    }
+  );
 }
@@ -0,0 +1,301 @@
+import { CronDate, CronExpressionParser } from 'cron-parser';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import pino from 'pino';
+import { DeliveryStatus, OutboundPayload, enqueueMessage, getOutboundMessage } from './messageQueue.js';
+import { dataFile, readJsonFile, touchRecord, writeRetainedRecords } from './storage.js';
+import { copyToUpload } from './uploads.js';
+import { onSessionDeleted } from './sessions.js';
+import { ApiError } from './errors.js';
+
+const logger = pino({ level: 'info' });
+const SCHEDULES_FILE = dataFile('schedules.json');
+// Audio uploaded for a schedule lives here until the schedule ends; each firing queues a copy
+const SCHEDULED_AUDIO_PATH = dataFile('scheduled-audio');
+const DEFAULT_TIMEZONE = process.env.SCHEDULE_TIMEZONE || 'UTC';
+const MAX_FIRINGS = 50;
+const MAX_TIMER_DELAY = 2 ** 31 - 1; // setTimeout's limit, about 24.8 days
+
+export type ScheduledPayload =
+  | { type: 'text'; text: string }
+  | { type: 'audio'; audioPath: string; owned?: boolean }; // owned: an upload deleted with the schedule
+
+export type ScheduleStatus = 'active' | 'paused' | 'completed' | 'cancelled';
+
+export interface ScheduleOptions {
+  sendAt?: string; // ISO date; without an offset it is read in `timezone`
+  cron?: string; // 5 or 6 field cron expression
+  timezone?: string; // IANA name, default SCHEDULE_TIMEZONE or UTC
+}
+
+export interface ScheduleFiring {
+  scheduledFor: string;
+  firedAt: string;
+  outboundId: string | null; // outbound queue id, see GET /messages/:id
+  messageId?: string; // WhatsApp message id, once sent
+  status: DeliveryStatus;
+  error?: string;
+}
+
+export interface Schedule {
+  id: string;
+  sessionId: string;
+  to: string;
+  payload: ScheduledPayload;
+  sendAt: string | null;
+  cron: string | null;
+  timezone: string;
+  status: ScheduleStatus;
+  nextRunAt: string | null;
+  firings: ScheduleFiring[]; // the last 50, oldest first
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+let schedules: Schedule[] = readJsonFile<Schedule[]>(SCHEDULES_FILE, []);
+let timer: NodeJS.Timeout | null = null;
+
+function save() {
+  schedules = writeRetainedRecords(SCHEDULES_FILE, schedules, s => s.finishedAt);
+}
+
+function update(schedule: Schedule, changes: Partial<Schedule>) {
+  touchRecord(schedule, changes);
+  save();
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Next cron occurrence strictly after `after`; one-shot schedules have none
+function nextRun(schedule: Pick<Schedule, 'cron' | 'timezone'>, after: Date): Date | null {
+  if (!schedule.cron) {
+    return null;
+  }
+  return CronExpressionParser.parse(schedule.cron, { tz: schedule.timezone, currentDate: after }).next().toDate();
+}
+
+function parseOptions(options: ScheduleOptions): Pick<Schedule, 'sendAt' | 'cron' | 'timezone' | 'nextRunAt'> {
+  const { sendAt, cron, timezone = DEFAULT_TIMEZONE } = options;
+  if (!sendAt === !cron) {
+    throw new ApiError('INVALID_SCHEDULE', 'Exactly one of sendAt or cron is required');
+  }
+  if (!isValidTimezone(timezone)) {
+    throw new ApiError('INVALID_SCHEDULE', `Unknown timezone: ${timezone}`);
+  }
+
+  if (cron) {
+    let next: Date | null;
+    try {
+      next = nextRun({ cron, timezone }, new Date());
+    } catch (error: any) {
+      throw new ApiError('INVALID_SCHEDULE', `Invalid cron expression: ${error.message}`);
+    }
+    return { sendAt: null, cron, timezone, nextRunAt: next!.toISOString() };
+  }
+
+  let date: Date;
+  try {
+    date = new CronDate(sendAt!, timezone).toDate();
+  } catch {
+    throw new ApiError('INVALID_SCHEDULE', 'sendAt must be an ISO date');
+  }
+  if (date.getTime() <= Date.now()) {
+    throw new ApiError('INVALID_SCHEDULE', 'sendAt must be in the future');
+  }
+  return { sendAt: date.toISOString(), cron: null, timezone, nextRunAt: date.toISOString() };
+}
+
+function releaseAudio(schedule: Schedule) {
+  if (schedule.payload.type === 'audio' && schedule.payload.owned) {
+    fs.rmSync(schedule.payload.audioPath, { force: true });
+  }
+}
+
+// Queue one send through the outbound queue, which retries it and tracks its receipts
+function fire(schedule: Schedule) {
+  const now = new Date();
+  const firing: ScheduleFiring = { scheduledFor: schedule.nextRunAt!, firedAt: now.toISOString(), outboundId: null, status: 'queued' };
+
+  try {
+    const { payload } = schedule;
+    let outbound: OutboundPayload = payload;
+    if (payload.type === 'audio') {
+      // The queue deletes temporary files once sent, so it gets its own copy of an owned upload
+      outbound = payload.owned
+        ? { type: 'audio', audioPath: copyToUpload(payload.audioPath), temporary: true }
+        : { type: 'audio', audioPath: payload.audioPath };
+    }
+    const message = enqueueMessage(schedule.sessionId, schedule.to, outbound);
+    firing.outboundId = message.id;
+  } catch (error: any) {
+    firing.status = 'failed';
+    firing.error = error.message;
+    logger.error(`[${schedule.sessionId}] ❌ Schedule ${schedule.id} could not queue its message: ${error.message}`);
+  }
+
+  // Runs missed while the sidecar was down are sent once, not once per missed occurrence
+  const next = nextRun(schedule, now);
+  const firings = [...schedule.firings, firing].slice(-MAX_FIRINGS);
+  if (next) {
+    update(schedule, { firings, nextRunAt: next.toISOString() });
+  } else {
+    update(schedule, { firings, status: 'completed', nextRunAt: null, finishedAt: now.toISOString() });
+    releaseAudio(schedule);
+  }
+}
+
+function fireDue() {
+  const now = Date.now();
+  for (const schedule of schedules) {
+    if (schedule.status === 'active' && schedule.nextRunAt && new Date(schedule.nextRunAt).getTime() <= now) {
+      fire(schedule);
+    }
+  }
+  armTimer();
+}
+
+// One timer for the earliest active schedule
+function armTimer() {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+
+  const next = schedules
+    .filter(s => s.status === 'active' && s.nextRunAt)
+    .map(s => new Date(s.nextRunAt!).getTime())
+    .sort((a, b) => a - b)[0];
+
+  if (next !== undefined) {
+    timer = setTimeout(fireDue, Math.min(Math.max(next - Date.now(), 0), MAX_TIMER_DELAY));
+    timer.unref();
+  }
+}
+
+// Firings follow their outbound message (sent, delivered, read or failed). The outcome is copied
+// into the schedule so it outlives the outbound queue's retention.
+function refreshFirings(schedule: Schedule): Schedule {
+  let changed = false;
+  for (const firing of schedule.firings) {
+    const message = firing.outboundId ? getOutboundMessage(schedule.sessionId, firing.outboundId) : null;
+    if (message && (message.status !== firing.status || message.messageId !== firing.messageId)) {
+      Object.assign(firing, { status: message.status, messageId: message.messageId, error: message.error });
+      changed = true;
+    }
+  }
+  if (changed) {
+    save();
+  }
+  return schedule;
+}
+
+export function createSchedule(sessionId: string, to: string, payload: ScheduledPayload, options: ScheduleOptions): Schedule {
+  const timing = parseOptions(options);
+  if (payload.type === 'audio' && !fs.existsSync(payload.audioPath)) {
+    throw new ApiError('AUDIO_NOT_FOUND', `Audio file not found: ${payload.audioPath}`);
+  }
+
+  const id = crypto.randomUUID();
+  if (payload.type === 'audio' && payload.owned) {
+    const audioPath = path.join(SCHEDULED_AUDIO_PATH, id);
+    fs.mkdirSync(SCHEDULED_AUDIO_PATH, { recursive: true });
+    fs.renameSync(payload.audioPath, audioPath);
+    payload = { ...payload, audioPath };
+  }
+
+  const now = new Date().toISOString();
+  const schedule: Schedule = { id, sessionId, to, payload, ...timing, status: 'active', firings: [], createdAt: now, updatedAt: now };
+  schedules.push(schedule);
+  save();
+  armTimer();
+
+  logger.info(`[${sessionId}] ⏰ Scheduled ${payload.type} message ${id} for ${to}, next run ${schedule.nextRunAt}`);
+  return schedule;
+}
+
+export function listSchedules(sessionId: string): Schedule[] {
+  return schedules.filter(s => s.sessionId === sessionId).map(refreshFirings);
+}
+
+export function getSchedule(sessionId: string, id: string): Schedule | null {
+  const schedule = schedules.find(s => s.sessionId === sessionId && s.id === id);
+  return schedule ? refreshFirings(schedule) : null;
+}
+
+function transition(sessionId: string, id: string, from: ScheduleStatus[], changes: (schedule: Schedule) => Partial<Schedule>): Schedule {
+  const schedule = schedules.find(s => s.sessionId === sessionId && s.id === id);
+  if (!schedule) {
+    throw new ApiError('SCHEDULE_NOT_FOUND', `Schedule not found: ${id}`);
+  }
+  if (!from.includes(schedule.status)) {
+    throw new ApiError('INVALID_SCHEDULE_STATE', `Schedule is ${schedule.status}`);
+  }
+
+  update(schedule, changes(schedule));
+  armTimer();
+  return refreshFirings(schedule);
+}
+
+export function pauseSchedule(sessionId: string, id: string): Schedule {
+  return transition(sessionId, id, ['active'], () => ({ status: 'paused' }));
+}
+
+// A recurring schedule picks up at its next occurrence; a one-shot whose time passed while paused is sent right away
+export function resumeSchedule(sessionId: string, id: string): Schedule {
+  return transition(sessionId, id, ['paused'], schedule => ({
+    status: 'active',
+    nextRunAt: schedule.cron ? nextRun(schedule, new Date())!.toISOString() : schedule.nextRunAt,
+  }));
+}
+
+export function cancelSchedule(sessionId: string, id: string): Schedule {
+  const schedule = transition(sessionId, id, ['active', 'paused'], () => ({
+    status: 'cancelled',
+    nextRunAt: null,
+    finishedAt: new Date().toISOString(),
+  }));
+  releaseAudio(schedule);
+  return schedule;
+}
+
+// A deleted session's schedules would keep queueing messages that can never go out
+function cancelSessionSchedules(sessionId: string) {
+  for (const schedule of schedules) {
+    if (schedule.sessionId === sessionId && (schedule.status === 'active' || schedule.status === 'paused')) {
+      update(schedule, { status: 'cancelled', nextRunAt: null, finishedAt: new Date().toISOString() });
+      releaseAudio(schedule);
+    }
+  }
+  armTimer();
+}
+
+// Schedules due while the sidecar was down fire now; their messages wait in the outbound queue
+// until the session connects
+export function initializeScheduler() {
+  onSessionDeleted(cancelSessionSchedules);
+
+  const live = new Set(schedules.flatMap(s => (!s.finishedAt && s.payload.type === 'audio' ? [s.payload.audioPath] : [])));
+  if (fs.existsSync(SCHEDULED_AUDIO_PATH)) {
+    for (const file of fs.readdirSync(SCHEDULED_AUDIO_PATH)) {
+      const filePath = path.join(SCHEDULED_AUDIO_PATH, file);
+      if (!live.has(filePath)) {
+        fs.rmSync(filePath, { force: true });
+      }
+    }
+  }
+
+  const active = schedules.filter(s => s.status === 'active').length;
+  if (active > 0) {
+    logger.info(`⏰ ${active} active schedule(s)`);
+  }
+  fireDue();
+}
@@ -0,0 +1,474 @@
+import { z } from 'zod';
+import { CONNECTION_STATUSES, ConnectionEvent } from './connectionSupervisor.js';
+import { ACTIVITY_TYPES, ContactActivityView } from './contactActivity.js';
+import { ERROR_CODES } from './errors.js';
+import { MEDIA_KINDS } from './media.js';
+import { OutboundMessage } from './messageQueue.js';
+import { ChatSummary, MessageSummary } from './messageStore.js';
+import { BucketState, RateLimits } from './rateLimits.js';
+import { MAX_CHECK_BATCH, NumberCheck, normalizeJid } from './recipients.js';
+import { Schedule } from './scheduler.js';
+import { DownloadJobView } from './voiceDownloader.js';
+import { EXPORT_FORMATS } from './voiceExport.js';
+import { VOICE_SORT_FIELDS, VoiceRecord } from './voiceIndex.js';
+import { WebhookDelivery } from './webhooks.js';
+import { GroupSummary } from './whatsapp.js';
+import { SessionReadiness } from './health.js';
+
+// Request and response schemas of every route. Requests are parsed with them before the handler
+// runs, and GET /openapi.json is generated from them. Schemas with a meta id become named
+// components of the OpenAPI document.
+
+// --- Request fields ---
+
+// A phone number in any format or a JID; kept as given, the JID is resolved when the message goes out
+export const Recipient = z.string().superRefine((value, ctx) => {
+  try {
+    normalizeJid(value);
+  } catch (error: any) {
+    ctx.addIssue({ code: 'custom', message: error.message, params: { code: 'INVALID_RECIPIENT' } });
+  }
+});
+
+// A chat given as a phone number or a JID, normalized to the JID
+export const ChatJid = z.string().transform((value, ctx) => {
+  try {
+    return normalizeJid(value);
+  } catch (error: any) {
+    ctx.addIssue({ code: 'custom', message: error.message, params: { code: 'INVALID_JID' } });
+    return z.NEVER;
+  }
+});
+
+// Multipart forms send every field as a string
+const Flag = z.union([z.boolean(), z.enum(['true', 'false']).transform(value => value === 'true')]);
+
+const IsoDate = z.string().transform((value, ctx) => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    ctx.addIssue({ code: 'custom', message: 'must be an ISO date' });
+    return z.NEVER;
+  }
+  return date;
+});
+
+const Count = z.coerce.number().int().min(0);
+
+// Queued sends are persisted and retried until the socket is open
+const Queue = Flag.optional().describe('Queue the message instead of sending it right away');
+
+export const IdParams = z.object({ id: z.string() });
+
+// --- Request bodies and queries ---
+
+export const CreateSessionBody = z.object({ id: z.string().min(1) });
+
+export const DeliveriesQuery = z.object({ status: z.enum(['retrying', 'failed']).optional() });
+
+export const ReadinessQuery = z.object({ session: z.string().optional() });
+
+export const SendTextBody = z.object({ to: Recipient, text: z.string().min(1), queue: Queue });
+
+// `audio` is the multipart file or its base64 content; `audioPath` a file under AUDIO_ROOT
+export const SendAudioBody = z.object({
+  to: Recipient,
+  audio: z.string().optional().describe('Base64 audio, or a multipart file'),
+  audioPath: z.string().optional().describe('Path under AUDIO_ROOT'),
+  queue: Queue,
+});
+
+export const SendMediaBody = z.object({
+  to: Recipient,
+  file: z.string().optional().describe('Base64 file, or a multipart file'),
+  caption: z.string().optional(),
+  fileName: z.string().optional().describe('Documents only'),
+  mimetype: z.string().optional().describe('Checked against the file content'),
+  queue: Queue,
+});
+
+export const CheckNumbersBody = z.object({ numbers: z.array(z.string()).min(1).max(MAX_CHECK_BATCH) });
+
+export const ScheduleBody = z.object({
+  to: Recipient,
+  text: z.string().optional(),
+  audio: z.string().optional().describe('Base64 audio, or a multipart file'),
+  audioPath: z.string().optional().describe('Path under AUDIO_ROOT'),
+  sendAt: z.string().optional().describe('ISO date of a single send'),
+  cron: z.string().optional().describe('5 or 6 field cron expression of a recurring send'),
+  timezone: z.string().optional().describe('IANA timezone of sendAt and cron'),
+});
+
+export const DownloadJobBody = z.object({
+  chatId: ChatJid.optional().describe('One chat; every chat when missing'),
+  messagesLimit: z.coerce.number().int().min(1).default(100).describe('Stored messages looked at per chat'),
+});
+
+export const DownloadChatBody = DownloadJobBody.required({ chatId: true });
+
+export const DownloadAllBody = DownloadJobBody.pick({ messagesLimit: true });
+
+export const JidParams = z.object({ jid: ChatJid });
+
+export const ChatMessagesQuery = z.object({
+  before: z.string().optional().describe('nextBefore of the previous page'),
+  limit: z.coerce.number().int().min(1).optional(),
+});
+
+export const ContactActivityQuery = z.object({
+  notContactedDays: Count.optional().describe('Only contacts we have not written to in that many days, or ever'),
+});
+
+export const VoiceFilters = z.object({
+  contact: z.string().optional(),
+  participant: z.string().optional(),
+  direction: z.enum(['sent', 'received']).optional(),
+  from: IsoDate.optional(),
+  to: IsoDate.optional(),
+});
+
+export const VoiceListQuery = VoiceFilters.extend({
+  sort: z.enum(VOICE_SORT_FIELDS).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  limit: Count.optional(),
+  offset: Count.optional(),
+});
+
+export const VoiceAudioQuery = z.object({ format: z.enum(['ogg', 'mp3']).default('ogg') });
+
+export const VoiceExportBody = VoiceFilters.extend({ format: z.enum(EXPORT_FORMATS).default('ogg') });
+
+// --- Responses ---
+
+const Timestamp = z.string().describe('ISO date');
+
+export const Success = z.object({ success: z.literal(true) });
+
+export const ErrorResponse = z
+  .object({
+    success: z.literal(false),
+    code: z.enum(ERROR_CODES),
+    error: z.string(),
+    details: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+  })
+  .meta({ id: 'Error' });
+
+const ConnectionStatus = z.enum(CONNECTION_STATUSES);
+
+export const StatusResponse = z.object({ status: ConnectionStatus });
+
+export const SessionStatusResponse = Success.extend({ status: ConnectionStatus });
+
+export const HealthResponse = z.object({ status: z.literal('ok') });
+
+export const LivenessResponse = HealthResponse.extend({ uptimeSeconds: z.number() });
+
+const SessionReadinessSchema = z
+  .object({
+    id: z.string(),
+    ready: z.boolean(),
+    status: z.string(),
+    lastConnectedAt: Timestamp.nullable(),
+    secondsSinceConnected: z.number().nullable(),
+    reconnectAttempts: z.number(),
+    authWritable: z.boolean(),
+    voicesFreeBytes: z.number().nullable(),
+    problems: z.array(z.string()),
+  })
+  .meta({ id: 'SessionReadiness' }) satisfies z.ZodType<SessionReadiness>;
+
+export const PublicReadinessResponse = z.object({ ready: z.boolean() });
+
+export const ReadinessResponse = z.object({
+  status: z.enum(['ready', 'not_ready']),
+  ready: z.boolean(),
+  sessions: z.array(SessionReadinessSchema),
+});
+
+export const SessionListResponse = z.object({
+  total: z.number(),
+  sessions: z.array(z.object({ id: z.string(), status: ConnectionStatus })),
+});
+
+export const SessionCreatedResponse = Success.extend({ id: z.string(), status: ConnectionStatus });
+
+const WebhookDeliverySchema = z
+  .object({
+    id: z.string(),
+    url: z.string(),
+    payload: z.object({
+      id: z.string(),
+      event: z.enum(['message.text', 'message.voice', 'message.receipt', 'connection.update']),
+      sessionId: z.string(),
+      timestamp: Timestamp,
+      data: z.record(z.string(), z.unknown()),
+    }),
+    status: z.enum(['retrying', 'failed']),
+    attempts: z.number(),
+    lastError: z.string(),
+    nextAttemptAt: Timestamp.optional(),
+    createdAt: Timestamp,
+    updatedAt: Timestamp,
+  })
+  .meta({ id: 'WebhookDelivery' }) satisfies z.ZodType<WebhookDelivery>;
+
+export const DeliveriesResponse = z.object({ total: z.number(), deliveries: z.array(WebhookDeliverySchema) });
+
+const RateLimitSchema = z.object({ capacity: z.number(), windowSeconds: z.number() }).nullable();
+
+export const RateLimitStateResponse = z.object({
+  limits: z.object({ global: RateLimitSchema, perRecipient: RateLimitSchema }) satisfies z.ZodType<RateLimits>,
+  buckets: z.array(
+    z.object({
+      sessionId: z.string(),
+      recipient: z.string().nullable(),
+      tokens: z.number(),
+      capacity: z.number(),
+      retryAfterMs: z.number(),
+    }) satisfies z.ZodType<BucketState>
+  ),
+});
+
+const ConnectionEventSchema = z
+  .object({
+    at: Timestamp,
+    type: z.enum(['connecting', 'qr', 'open', 'close', 'reconnect_scheduled', 'logged_out', 'logout', 'relink', 'stopped']),
+    status: ConnectionStatus,
+    statusCode: z.number().optional(),
+    reason: z.string().optional(),
+    attempt: z.number().optional(),
+    delayMs: z.number().optional(),
+  })
+  .meta({ id: 'ConnectionEvent' }) satisfies z.ZodType<ConnectionEvent>;
+
+export const ConnectionEventsResponse = z.object({ total: z.number(), events: z.array(ConnectionEventSchema) });
+
+export const QrResponse = z.object({ qr: z.string() });
+
+export const SentResponse = Success.extend({ id: z.string(), messageId: z.string().optional() });
+
+const DeliveryStatus = z.enum(['queued', 'sent', 'delivered', 'read', 'failed']);
+
+export const QueuedResponse = Success.extend({ id: z.string(), status: DeliveryStatus });
+
+export const OutboundMessageSchema = z
+  .object({
+    id: z.string(),
+    sessionId: z.string(),
+    to: z.string(),
+    payload: z.discriminatedUnion('type', [
+      z.object({ type: z.literal('text'), text: z.string() }),
+      z.object({ type: z.literal('audio'), audioPath: z.string(), temporary: z.boolean().optional() }),
+      z.object({
+        type: z.literal('media'),
+        media: z.object({
+          kind: z.enum(MEDIA_KINDS),
+          filePath: z.string(),
+          mimetype: z.string(),
+          caption: z.string().optional(),
+          fileName: z.string().optional(),
+        }),
+      }),
+    ]),
+    status: DeliveryStatus,
+    attempts: z.number(),
+    messageId: z.string().optional().describe('WhatsApp message id, once sent'),
+    error: z.string().optional(),
+    nextAttemptAt: Timestamp.optional(),
+    createdAt: Timestamp,
+    updatedAt: Timestamp,
+    sentAt: Timestamp.optional(),
+    deliveredAt: Timestamp.optional(),
+    readAt: Timestamp.optional(),
+  })
+  .meta({ id: 'OutboundMessage' }) satisfies z.ZodType<OutboundMessage>;
+
+export const GroupsResponse = z.object({
+  total: z.number(),
+  groups: z.array(
+    z
+      .object({
+        id: z.string(),
+        subject: z.string(),
+        description: z.string().nullable(),
+        owner: z.string().nullable(),
+        createdAt: Timestamp.nullable(),
+        announce: z.boolean(),
+        participants: z.array(
+          z.object({ jid: z.string(), lid: z.string().nullable(), admin: z.enum(['admin', 'superadmin']).nullable() })
+        ),
+      })
+      .meta({ id: 'Group' }) satisfies z.ZodType<GroupSummary>
+  ),
+});
+
+export const NumberChecksResponse = z.object({
+  results: z.array(
+    z.object({ input: z.string(), jid: z.string().nullable(), exists: z.boolean() }) satisfies z.ZodType<NumberCheck>
+  ),
+});
+
+export const ScheduleSchema = z
+  .object({
+    id: z.string(),
+    sessionId: z.string(),
+    to: z.string(),
+    payload: z.discriminatedUnion('type', [
+      z.object({ type: z.literal('text'), text: z.string() }),
+      z.object({ type: z.literal('audio'), audioPath: z.string(), owned: z.boolean().optional() }),
+    ]),
+    sendAt: Timestamp.nullable(),
+    cron: z.string().nullable(),
+    timezone: z.string(),
+    status: z.enum(['active', 'paused', 'completed', 'cancelled']),
+    nextRunAt: Timestamp.nullable(),
+    firings: z.array(
+      z.object({
+        scheduledFor: Timestamp,
+        firedAt: Timestamp,
+        outboundId: z.string().nullable(),
+        messageId: z.string().optional(),
+        status: DeliveryStatus,
+        error: z.string().optional(),
+      })
+    ),
+    createdAt: Timestamp,
+    updatedAt: Timestamp,
+    finishedAt: Timestamp.optional(),
+  })
+  .meta({ id: 'Schedule' }) satisfies z.ZodType<Schedule>;
+
+export const ScheduleResponse = Success.extend({ schedule: ScheduleSchema });
+
+export const SchedulesResponse = z.object({ total: z.number(), schedules: z.array(ScheduleSchema) });
+
+export const DownloadJobSchema = z
+  .object({
+    id: z.string(),
+    sessionId: z.string(),
+    chatId: z.string().nullable(),
+    messagesLimit: z.number(),
+    status: z.enum(['queued', 'running', 'paused', 'completed', 'failed', 'cancelled']),
+    total: z.number(),
+    downloaded: z.number(),
+    skipped: z.number(),
+    failed: z.number(),
+    currentChat: z.string().optional(),
+    totalChats: z.number().optional(),
+    processedChats: z.number().optional(),
+    errors: z.array(z.object({ messageId: z.string(), error: z.string(), at: Timestamp })),
+    error: z.string().optional(),
+    createdAt: Timestamp,
+    updatedAt: Timestamp,
+    startedAt: Timestamp.optional(),
+    finishedAt: Timestamp.optional(),
+  })
+  .meta({ id: 'DownloadJob' }) satisfies z.ZodType<DownloadJobView>;
+
+export const DownloadJobResponse = Success.extend({ job: DownloadJobSchema });
+
+export const DownloadJobsResponse = z.object({ jobs: z.array(DownloadJobSchema) });
+
+// Kept for older clients
+export const DownloadQueuedResponse = Success.extend({
+  jobId: z.string(),
+  message: z.string(),
+  info: z.string(),
+  usage: z.string(),
+});
+
+export const DownloadProgressResponse = z.union([
+  DownloadJobSchema,
+  z.object({ status: z.literal('idle'), total: z.number(), downloaded: z.number(), failed: z.number() }),
+]);
+
+export const DownloadStopResponse = Success.extend({ message: z.string(), jobIds: z.array(z.string()) });
+
+export const ChatsResponse = z.object({
+  chats: z.array(
+    z
+      .object({
+        jid: z.string(),
+        name: z.string().nullable(),
+        lastMessageAt: Timestamp.nullable(),
+        unreadCount: z.number(),
+        messageCount: z.number(),
+      })
+      .meta({ id: 'Chat' }) satisfies z.ZodType<ChatSummary>
+  ),
+});
+
+export const ChatMessagesResponse = z.object({
+  chatId: z.string(),
+  messages: z.array(
+    z
+      .object({
+        id: z.string(),
+        chatId: z.string(),
+        fromMe: z.boolean(),
+        sender: z.string().nullable(),
+        pushName: z.string().nullable(),
+        timestamp: Timestamp,
+        type: z.string(),
+        text: z.string().nullable(),
+        seconds: z.number().nullable(),
+        status: z.number().nullable(),
+      })
+      .meta({ id: 'Message' }) satisfies z.ZodType<MessageSummary>
+  ),
+  nextBefore: z.string().nullable(),
+});
+
+const DirectionActivitySchema = z.object({
+  count: z.number(),
+  byType: z.partialRecord(z.enum(ACTIVITY_TYPES), z.number()),
+  voiceMinutes: z.number(),
+});
+
+export const ContactActivityResponse = z.object({
+  contacts: z.array(
+    z
+      .object({
+        jid: z.string(),
+        name: z.string().nullable(),
+        lastInboundAt: Timestamp.nullable(),
+        lastOutboundAt: Timestamp.nullable(),
+        windows: z.array(
+          z.object({ days: z.number(), inbound: DirectionActivitySchema, outbound: DirectionActivitySchema })
+        ),
+      })
+      .meta({ id: 'ContactActivity' }) satisfies z.ZodType<ContactActivityView>
+  ),
+});
+
+export const VoiceStatsResponse = z.object({
+  total: z.number(),
+  sent: z.number(),
+  received: z.number(),
+  totalSize: z.number(),
+  lastDownloaded: Timestamp.nullable(),
+});
+
+const VoiceSchema = z
+  .object({
+    id: z.string(),
+    sessionId: z.string(),
+    messageId: z.string().nullable(),
+    contact: z.string(),
+    participant: z.string().nullable().optional(),
+    direction: z.enum(['sent', 'received']),
+    timestamp: Timestamp,
+    seconds: z.number().nullable(),
+    size: z.number(),
+    sha256: z.string().optional(),
+    path: z.string(),
+    fileName: z.string(),
+    savedAt: Timestamp,
+  })
+  .meta({ id: 'Voice' }) satisfies z.ZodType<VoiceRecord>;
+
+export const VoiceListResponse = z.object({
+  total: z.number(),
+  offset: z.number(),
+  limit: z.number(),
+  voices: z.array(VoiceSchema),
+});
@@ -0,0 +1,125 @@
+import fs from 'fs';
+import path from 'path';
+import pino from 'pino';
+import { WhatsAppSession } from './whatsapp.js';
+import { TransportFactory, createBaileysTransport } from './transport.js';
+import { dataFile, readJsonFile, writeJsonFile } from './storage.js';
+import { ApiError } from './errors.js';
+import { removeSessionVoices } from './voiceIndex.js';
+import { forgetSessionLookups } from './recipients.js';
+
+const logger = pino({ level: 'info' });
+const AUTH_PATH = process.env.BAILEYS_AUTH_PATH || './auth_info';
+const VOICES_PATH = process.env.VOICES_PATH || './downloaded_voices';
+const SESSIONS_PATH = process.env.SESSIONS_PATH || './sessions';
+const SESSIONS_FILE = dataFile('sessions.json');
+
+// The default session keeps the original AUTH_PATH / VOICES_PATH and backs the unscoped routes
+export const DEFAULT_SESSION_ID = 'default';
+
+const SESSION_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+const sessions = new Map<string, WhatsAppSession>();
+const deletedListeners: ((sessionId: string) => void)[] = [];
+let transportFactory: TransportFactory = (sessionId, authPath) => createBaileysTransport(authPath);
+
+export function sessionPaths(id: string) {
+  if (id === DEFAULT_SESSION_ID) {
+    return { authPath: AUTH_PATH, voicesPath: VOICES_PATH };
+  }
+  return {
+    authPath: path.join(SESSIONS_PATH, id, 'auth_info'),
+    voicesPath: path.join(SESSIONS_PATH, id, 'voices'),
+  };
+}
+
+function saveSessionIds() {
+  writeJsonFile(SESSIONS_FILE, Array.from(sessions.keys()).filter(id => id !== DEFAULT_SESSION_ID));
+}
+
+async function startSession(id: string): Promise<WhatsAppSession> {
+  const { authPath, voicesPath } = sessionPaths(id);
+  const session = new WhatsAppSession(id, authPath, voicesPath, transportFactory);
+  sessions.set(id, session);
+  try {
+    await session.initialize();
+  } catch (error) {
+    sessions.delete(id);
+    throw error;
+  }
+  return session;
+}
+
+// Start the default session plus every session created at runtime before the last restart.
+// A custom factory replaces the Baileys socket (used by tests).
+export async function initializeSessions(factory?: TransportFactory) {
+  if (factory) {
+    transportFactory = factory;
+  }
+
+  const ids = [DEFAULT_SESSION_ID, ...readJsonFile<string[]>(SESSIONS_FILE, [])];
+  for (const id of ids) {
+    logger.info(`Starting WhatsApp session: ${id}`);
+    await startSession(id);
+  }
+}
+
+export function getSession(id: string = DEFAULT_SESSION_ID): WhatsAppSession | null {
+  return sessions.get(id) || null;
+}
+
+export function listSessions(): WhatsAppSession[] {
+  return Array.from(sessions.values());
+}
+
+export async function createSession(id: string): Promise<WhatsAppSession> {
+  if (!SESSION_ID_PATTERN.test(id)) {
+    throw new ApiError('INVALID_SESSION_ID', 'Invalid session id (letters, digits, "-" and "_", up to 64 characters)');
+  }
+  if (sessions.has(id)) {
+    throw new ApiError('SESSION_EXISTS', `Session already exists: ${id}`);
+  }
+
+  const session = await startSession(id);
+  saveSessionIds();
+  logger.info(`Created WhatsApp session: ${id}`);
+  return session;
+}
+
+// Called after a session is deleted, so the modules holding its data can drop it
+export function onSessionDeleted(listener: (sessionId: string) => void) {
+  deletedListeners.push(listener);
+}
+
+// The voice index and the number lookups are imported by whatsapp.ts, so they cannot import
+// this module back to subscribe themselves
+onSessionDeleted(removeSessionVoices);
+onSessionDeleted(forgetSessionLookups);
+
+// Graceful shutdown: every session writes its pending creds and closes its socket
+export async function shutdownSessions() {
+  await Promise.all(listSessions().map(session => session.shutdown()));
+}
+
+// Stops the session and removes its auth state; downloaded voice files are kept on disk but leave
+// the index. Its queued messages fail, its schedules are cancelled and its stored messages,
+// contact activity and cached lookups are dropped (see onSessionDeleted).
+export function deleteSession(id: string) {
+  if (id === DEFAULT_SESSION_ID) {
+    throw new ApiError('SESSION_PROTECTED', 'The default session cannot be deleted');
+  }
+
+  const session = sessions.get(id);
+  if (!session) {
+    throw new ApiError('SESSION_NOT_FOUND', `Session not found: ${id}`);
+  }
+
+  session.stop();
+  sessions.delete(id);
+  saveSessionIds();
+  fs.rmSync(session.authPath, { recursive: true, force: true });
+  for (const listener of deletedListeners) {
+    listener(id);
+  }
+  logger.info(`Deleted WhatsApp session: ${id}`);
+}
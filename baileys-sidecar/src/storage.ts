@@ -0,0 +1,44 @@
+import fs from 'fs';
+import path from 'path';
+
+// Directory for the sidecar's own state (queues, indexes, ...), next to AUTH_PATH and VOICES_PATH
+export const DATA_PATH = process.env.DATA_PATH || './data';
+
+export function dataFile(name: string): string {
+  return path.join(DATA_PATH, name);
+}
+
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) {
+    return fallback;
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+}
+
+// Write to a temp file then rename, so a crash never leaves a half-written file behind
+export function writeJsonFile(filePath: string, data: unknown) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tmpPath, filePath);
+}
+
+// Finished records (sent messages, jobs, schedules, deliveries that gave up) are kept for a week
+export const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Drop the records finished more than RETENTION_MS ago, write the rest and return them;
+// finishedAt gives null for a record still in progress
+export function writeRetainedRecords<T>(filePath: string, records: T[], finishedAt: (record: T) => string | null | undefined): T[] {
+  const cutoff = Date.now() - RETENTION_MS;
+  const kept = records.filter(record => {
+    const finished = finishedAt(record);
+    return !finished || new Date(finished).getTime() > cutoff;
+  });
+  writeJsonFile(filePath, kept);
+  return kept;
+}
+
+// Apply changes to a persisted record and stamp it; the caller saves its file afterwards
+export function touchRecord<T extends { updatedAt: string }>(record: T, changes: Partial<T>) {
+  Object.assign(record, changes, { updatedAt: new Date().toISOString() });
+}
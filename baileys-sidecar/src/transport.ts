@@ -0,0 +1,122 @@
+import makeWASocket, {
+  AnyMessageContent,
+  BaileysEventEmitter,
+  GroupMetadata,
+  WAMessage,
+  downloadMediaMessage,
+  generateWAMessageFromContent,
+  prepareWAMessageMedia,
+  useMultiFileAuthState,
+} from '@whiskeysockets/baileys';
+import pino from 'pino';
+
+const logger = pino({ level: 'info' });
+
+export const VOICE_NOTE_MIMETYPE = 'audio/ogg; codecs=opus';
+
+// A push-to-talk voice note: mono OGG/Opus audio plus the duration and waveform WhatsApp displays
+export interface VoiceNote {
+  audio: Buffer;
+  seconds: number;
+  waveform: Uint8Array;
+}
+
+// Everything the sidecar needs from a WhatsApp connection. The production
+// implementation wraps a Baileys socket; tests plug in a scriptable fake.
+export interface WhatsAppTransport {
+  // Baileys event emitter (connection.update, messages.upsert, ...)
+  readonly ev: BaileysEventEmitter;
+
+  sendMessage(jid: string, content: AnyMessageContent): Promise<WAMessage | undefined>;
+
+  sendVoiceNote(jid: string, note: VoiceNote): Promise<WAMessage | undefined>;
+
+  downloadMedia(message: WAMessage): Promise<Buffer>;
+
+  // Registered numbers among the given JIDs, under their canonical JID; undefined when the query fails
+  onWhatsApp(...jids: string[]): Promise<{ jid: string; exists: boolean }[] | undefined>;
+
+  // Metadata of every group the account belongs to, by group JID
+  groupFetchAllParticipating(): Promise<{ [jid: string]: GroupMetadata }>;
+
+  // Write the creds updates still pending to the auth directory
+  flushCreds(): Promise<void>;
+
+  // Unlink this device from the account and close the connection
+  logout(): Promise<void>;
+
+  // Close the underlying connection; creds updates are no longer saved
+  end(): void;
+}
+
+export type TransportFactory = (sessionId: string, authPath: string) => Promise<WhatsAppTransport>;
+
+export async function createBaileysTransport(authPath: string): Promise<WhatsAppTransport> {
+  const { state, saveCreds } = await useMultiFileAuthState(authPath);
+
+  const sock = makeWASocket({
+    auth: state,
+    printQRInTerminal: true,
+    logger: pino({ level: 'info' }),
+  });
+
+  // Saves are chained so a flush waits for the one in flight
+  let saving = Promise.resolve();
+  const persist = () => {
+    saving = saving.then(saveCreds).catch(error => logger.error(`Failed to save creds: ${error.message}`));
+  };
+  sock.ev.on('creds.update', persist);
+
+  return {
+    ev: sock.ev,
+
+    sendMessage: (jid, content) => sock.sendMessage(jid, content),
+
+    // sock.sendMessage drops a caller-supplied waveform (it recomputes one and gets nothing
+    // without the optional audio-decode package), so build and relay the message ourselves
+    async sendVoiceNote(jid, { audio, seconds, waveform }) {
+      const content = await prepareWAMessageMedia(
+        { audio, mimetype: VOICE_NOTE_MIMETYPE, ptt: true, seconds },
+        { upload: sock.waUploadToServer, logger: pino({ level: 'silent' }) }
+      );
+      content.audioMessage!.waveform = waveform;
+
+      const message = generateWAMessageFromContent(jid, content, { userJid: sock.user!.id });
+      await sock.relayMessage(jid, message.message!, { messageId: message.key.id! });
+      await sock.upsertMessage(message, 'append');
+      return message;
+    },
+
+    async downloadMedia(message) {
+      const buffer = await downloadMediaMessage(
+        message,
+        'buffer',
+        {},
+        {
+          logger: pino({ level: 'silent' }),
+          reuploadRequest: sock.updateMediaMessage,
+        }
+      );
+      return buffer as Buffer;
+    },
+
+    onWhatsApp: (...jids) => sock.onWhatsApp(...jids),
+
+    groupFetchAllParticipating: () => sock.groupFetchAllParticipating(),
+
+    async flushCreds() {
+      persist();
+      await saving;
+    },
+
+    async logout() {
+      sock.ev.off('creds.update', persist);
+      await sock.logout();
+    },
+
+    end() {
+      sock.ev.off('creds.update', persist);
+      sock.end(undefined);
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import { NextFunction, Request, Response } from 'express';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import multer from 'multer';
+import pino from 'pino';
+import { dataFile } from './storage.js';
+import { ApiError, ErrorCode } from './errors.js';
+
+const logger = pino({ level: 'info' });
+// Path-based sends may only read files under this directory
+export const AUDIO_ROOT = path.resolve(process.env.AUDIO_ROOT || './audio');
+// Uploads live next to the outbound queue so queued sends survive a restart
+const UPLOADS_PATH = dataFile('uploads');
+export const MAX_AUDIO_BYTES = parseInt(process.env.MAX_AUDIO_BYTES || String(16 * 1024 * 1024)); // WhatsApp's audio limit
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+export type UploadField = 'audio' | 'file';
+
+const TOO_LARGE: Record<UploadField, ErrorCode> = { audio: 'AUDIO_TOO_LARGE', file: 'FILE_TOO_LARGE' };
+
+// Multipart support for a route taking one file field; JSON bodies pass through untouched
+export function acceptUpload(field: UploadField, maxBytes: number) {
+  const upload = multer({ dest: UPLOADS_PATH, limits: { fileSize: maxBytes, files: 1 } }).single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error: unknown) => {
+      if (!error) {
+        return next();
+      }
+
+      const tooLarge = error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE';
+      next(
+        tooLarge
+          ? new ApiError(TOO_LARGE[field], `${field} exceeds ${maxBytes} bytes`)
+          : new ApiError('INVALID_UPLOAD', (error as Error).message)
+      );
+    });
+  };
+}
+
+export const acceptAudioUpload = acceptUpload('audio', MAX_AUDIO_BYTES);
+
+// Decode a base64 (or data: URL) field into a temporary upload file
+export function saveBase64Upload(field: UploadField, data: unknown, maxBytes: number): string {
+  const encoded = typeof data === 'string' ? data.replace(/^data:[^,]*;base64,/, '').replace(/\s/g, '') : '';
+  if (!encoded || encoded.length % 4 !== 0 || !BASE64_PATTERN.test(encoded)) {
+    throw new ApiError('INVALID_BASE64', `${field} must be base64 encoded`);
+  }
+
+  const buffer = Buffer.from(encoded, 'base64');
+  if (buffer.length > maxBytes) {
+    throw new ApiError(TOO_LARGE[field], `${field} exceeds ${maxBytes} bytes`);
+  }
+
+  fs.mkdirSync(UPLOADS_PATH, { recursive: true });
+  const filePath = path.join(UPLOADS_PATH, crypto.randomUUID());
+  fs.writeFileSync(filePath, buffer);
+  return filePath;
+}
+
+// Copy a file into a new temporary upload, for a send that must not consume the original
+export function copyToUpload(filePath: string): string {
+  fs.mkdirSync(UPLOADS_PATH, { recursive: true });
+  const upload = path.join(UPLOADS_PATH, crypto.randomUUID());
+  fs.copyFileSync(filePath, upload);
+  return upload;
+}
+
+// Resolve a caller-supplied path inside AUDIO_ROOT (relative paths are relative to it).
+// Symlinks are resolved first so a link cannot point outside the root either.
+export function resolveAudioPath(audioPath: string): string {
+  const resolved = path.resolve(AUDIO_ROOT, audioPath);
+  const real = fs.existsSync(resolved) ? fs.realpathSync(resolved) : resolved;
+  const root = real === resolved ? AUDIO_ROOT : fs.realpathSync(AUDIO_ROOT);
+
+  const relative = path.relative(root, real);
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new ApiError('PATH_NOT_ALLOWED', `audioPath must be inside ${AUDIO_ROOT}`);
+  }
+
+  return resolved;
+}
+
+export function removeUpload(filePath: string) {
+  fs.rm(filePath, { force: true }, error => {
+    if (error) {
+      logger.warn(`Could not remove upload ${filePath}: ${error.message}`);
+    }
+  });
+}
+
+// Delete uploads left behind by a crash, keeping those still referenced by queued messages
+export function removeStaleUploads(keep: Set<string>) {
+  if (!fs.existsSync(UPLOADS_PATH)) {
+    return;
+  }
+
+  for (const file of fs.readdirSync(UPLOADS_PATH)) {
+    const filePath = path.join(UPLOADS_PATH, file);
+    if (!keep.has(filePath)) {
+      fs.rmSync(filePath, { force: true });
+    }
+  }
+}
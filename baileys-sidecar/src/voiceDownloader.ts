@@ -1,354 +1,354 @@
-import { WASocket, downloadMediaMessage, proto } from '@whiskeysockets/baileys';
-import fs from 'fs';
-import path from 'path';
+import { WAMessage } from '@whiskeysockets/baileys';
+import crypto from 'crypto';
 import pino from 'pino';
+import { WhatsAppTransport } from './transport.js';
+import { isVoiceSaved, saveVoice } from './voiceIndex.js';
+import { getVoiceNotes, listChats } from './messageStore.js';
+import { WhatsAppSession, onWhatsAppEvent } from './whatsapp.js';
+import { getSession } from './sessions.js';
+import { dataFile, readJsonFile, touchRecord, writeRetainedRecords } from './storage.js';
+import { ApiError } from './errors.js';
 
 const logger = pino({ level: 'info' });
+const JOBS_FILE = dataFile('download-jobs.json');
+const MAX_JOB_ERRORS = 50;
+// Messages handled between two writes of the jobs file while a job runs; status changes are written at once
+const CHECKPOINT_EVERY = 25;
 
-interface DownloadProgress {
+export type DownloadJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface DownloadJobOptions {
+  chatId?: string | null; // null: every chat with voice notes
+  messagesLimit?: number;
+}
+
+export interface DownloadJob {
+  id: string;
+  sessionId: string;
+  chatId: string | null;
+  messagesLimit: number;
+  status: DownloadJobStatus;
   total: number;
   downloaded: number;
+  skipped: number; // already saved, by the auto-downloader or an earlier job
   failed: number;
-  status: 'idle' | 'running' | 'paused' | 'completed';
   currentChat?: string;
   totalChats?: number;
   processedChats?: number;
+  errors: { messageId: string; error: string; at: string }[];
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  processedIds: string[]; // message ids already handled, skipped when the job resumes
 }
 
-let downloadProgress: DownloadProgress = {
-  total: 0,
-  downloaded: 0,
-  failed: 0,
-  status: 'idle',
-};
+export type DownloadJobView = Omit<DownloadJob, 'processedIds'>;
 
-// Délai aléatoire entre min et max (en ms)
-function randomDelay(min: number, max: number): Promise<void> {
-  const delay = Math.floor(Math.random() * (max - min + 1)) + min;
-  logger.debug(`Waiting ${delay}ms before next action...`);
-  return new Promise(resolve => setTimeout(resolve, delay));
-}
+let jobs: DownloadJob[] = readJsonFile<DownloadJob[]>(JOBS_FILE, []);
+// Jobs run one at a time, across all sessions, to keep the pace human-like
+let activeJob: DownloadJob | null = null;
 
-// Télécharge un message vocal et le sauvegarde
-async function downloadVoiceMessage(
-  sock: WASocket,
-  message: proto.IWebMessageInfo,
-  outputDir: string
-): Promise<boolean> {
-  try {
-    const audioMessage = message.message?.audioMessage;
-    if (!audioMessage || !audioMessage.url) {
-      logger.debug('Message does not contain downloadable audio');
-      return false;
-    }
+const progressListeners: ((job: DownloadJobView) => void)[] = [];
 
-    // Télécharger le média
-    const buffer = await downloadMediaMessage(
-      message as any,
-      'buffer',
-      {},
-      {
-        logger: pino({ level: 'silent' }),
-        reuploadRequest: sock.updateMediaMessage,
-      }
-    );
+// Called whenever a job's progress or status changes
+export function onDownloadProgress(listener: (job: DownloadJobView) => void) {
+  progressListeners.push(listener);
+}
 
-    if (!buffer) {
-      logger.warn('Failed to download media buffer');
-      return false;
-    }
+function view(job: DownloadJob): DownloadJobView {
+  const { processedIds, ...rest } = job;
+  return { ...rest };
+}
+
+function save() {
+  jobs = writeRetainedRecords(JOBS_FILE, jobs, j => j.finishedAt);
+}
 
-    // Créer le nom de fichier avec timestamp
-    const timestamp = message.messageTimestamp?.toString() || Date.now().toString();
-    const from = message.key?.remoteJid?.split('@')[0] || 'unknown';
-    const fileName = `${from}_${timestamp}.ogg`;
-    const filePath = path.join(outputDir, fileName);
+function notify(job: DownloadJob) {
+  const snapshot = view(job);
+  for (const listener of progressListeners) {
+    listener(snapshot);
+  }
+}
 
-    // Sauvegarder le fichier
-    fs.writeFileSync(filePath, buffer as Buffer);
+function update(job: DownloadJob, changes: Partial<DownloadJob> = {}) {
+  touchRecord(job, changes);
+  save();
+  notify(job);
+}
 
-    logger.info(`✅ Downloaded: ${fileName} (${(buffer as Buffer).length} bytes)`);
-    return true;
-  } catch (error: any) {
-    logger.error(`Failed to download voice:`, error.message);
-    return false;
+// Listeners hear about every message; the file is only rewritten every CHECKPOINT_EVERY of them
+function markProcessed(job: DownloadJob, messageId: string) {
+  job.processedIds.push(messageId);
+  job.updatedAt = new Date().toISOString();
+  if (job.processedIds.length % CHECKPOINT_EVERY === 0) {
+    save();
   }
+  notify(job);
 }
 
-// Télécharge les vocaux d'un chat spécifique
-export async function downloadVoicesFromChat(
-  sock: WASocket,
-  chatId: string,
-  messagesLimit: number = 100,
-  outputDir: string = './downloaded_voices'
-): Promise<DownloadProgress> {
+// Délai aléatoire entre min et max (en ms)
+function randomDelay(min: number, max: number): Promise<void> {
+  const delay = Math.floor(Math.random() * (max - min + 1)) + min;
+  logger.debug(`Waiting ${delay}ms before next action...`);
+  return new Promise(resolve => setTimeout(resolve, delay));
+}
 
-  if (downloadProgress.status === 'running') {
-    throw new Error('Download already in progress');
+// Télécharge un message vocal et le sauvegarde ; false s'il a été enregistré entre-temps
+async function downloadVoiceMessage(session: WhatsAppSession, sock: WhatsAppTransport, message: WAMessage): Promise<boolean> {
+  const audioMessage = message.message?.audioMessage;
+  if (!audioMessage || !audioMessage.url) {
+    throw new Error('Message does not contain downloadable audio');
   }
 
-  downloadProgress = {
-    total: 0,
-    downloaded: 0,
-    failed: 0,
-    status: 'running',
-    currentChat: chatId,
-  };
+  // Télécharger le média
+  const buffer = await sock.downloadMedia(message);
 
-  try {
-    // Créer le dossier de sortie
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
-    const chatName = chatId.split('@')[0];
-    const outputPath = path.join(outputDir, `${chatName}_${timestamp}`);
+  // Sauvegarder le fichier (même emplacement que le téléchargement automatique)
+  const { record, created } = saveVoice(session.id, session.voicesPath, message, buffer);
 
-    if (!fs.existsSync(outputPath)) {
-      fs.mkdirSync(outputPath, { recursive: true });
-    }
+  if (created) {
+    logger.info(`✅ Downloaded: ${record.path} (${buffer.length} bytes)`);
+  }
+  return created;
+}
 
-    logger.info(`📁 Saving to: ${outputPath}`);
-    logger.info(`📥 Fetching messages from ${chatId}...`);
+function isConnected(sessionId: string): boolean {
+  return getSession(sessionId)?.getConnectionStatus() === 'connected';
+}
 
-    // Récupérer l'historique des messages
-    const result: any = await sock.fetchMessageHistory(messagesLimit, undefined as any, undefined as any);
+// Voice notes from the message store, grouped by chat: the job's chat, or every chat,
+// most recent activity first. messagesLimit bounds how far back each chat is scanned.
+function voicesByChat(job: DownloadJob): Map<string, WAMessage[]> {
+  const chats = new Map<string, WAMessage[]>();
+  const chatIds = job.chatId ? [job.chatId] : listChats(job.sessionId).map(chat => chat.jid);
 
-    if (!result || !Array.isArray(result) || result.length === 0) {
-      logger.warn(`⚠️  No cached messages found. Feature requires message history sync.`);
-      logger.info(`💡 Tip: Send yourself a voice message first, then try again!`);
-      downloadProgress.status = 'completed';
-      return downloadProgress;
+  for (const chatId of chatIds) {
+    const voices = getVoiceNotes(job.sessionId, chatId, job.messagesLimit);
+    if (voices.length > 0) {
+      chats.set(chatId, voices);
     }
+  }
+  return chats;
+}
 
-    logger.info(`Found ${result.length} cached messages`);
+async function runJob(job: DownloadJob) {
+  const session = getSession(job.sessionId)!;
+  const sock = session.getWhatsAppSocket()!;
+  const processed = new Set(job.processedIds);
+  update(job, { status: 'running', startedAt: job.startedAt || new Date().toISOString(), error: undefined });
 
-    // Filtrer les messages vocaux du chat spécifique
-    const voiceMessages = result.filter(
-      (msg: any) =>
-        msg.key?.remoteJid === chatId &&
-        msg.message?.audioMessage?.ptt === true
-    );
+  logger.info(`[${job.sessionId}] 🎙️ Download job ${job.id} started (${job.chatId || 'all chats'}, ${processed.size} already done)`);
 
-    logger.info(`Found ${voiceMessages.length} voice messages 🎙️`);
-    downloadProgress.total = voiceMessages.length;
+  try {
+    const chats = voicesByChat(job);
+    const total = Array.from(chats.values()).reduce((sum, msgs) => sum + msgs.length, 0);
 
-    if (voiceMessages.length === 0) {
-      downloadProgress.status = 'completed';
-      return downloadProgress;
+    if (total === 0) {
+      logger.warn(`⚠️  No stored voice messages found. History arrives after linking the device, try again once it is synced.`);
     }
+    update(job, { total, totalChats: chats.size });
 
-    // Télécharger chaque vocal avec délais humains
-    for (let i = 0; i < voiceMessages.length; i++) {
-      if (downloadProgress.status === 'paused') {
-        logger.warn('Download paused by user');
-        break;
-      }
+    let chatIndex = 0;
+    let downloadsThisRun = 0;
+    for (const [chatId, voiceMessages] of chats) {
+      update(job, { currentChat: chatId, processedChats: chatIndex });
 
-      const msg = voiceMessages[i];
-
-      // Délai rapide mais naturel entre chaque téléchargement (0.5-2 secondes)
-      if (i > 0) {
-        await randomDelay(500, 2000);
-      }
+      for (const msg of voiceMessages) {
+        if (job.status !== 'running') {
+          break;
+        }
+        // Dropped connection: requeue, the job picks up from here once the socket is back
+        if (!isConnected(job.sessionId)) {
+          update(job, { status: 'queued' });
+          logger.warn(`[${job.sessionId}] Download job ${job.id} waiting for the connection`);
+          break;
+        }
+        if (processed.has(msg.key.id!)) {
+          continue;
+        }
+        if (isVoiceSaved(job.sessionId, msg.key)) {
+          job.skipped++;
+          processed.add(msg.key.id!);
+          markProcessed(job, msg.key.id!);
+          continue;
+        }
 
-      const success = await downloadVoiceMessage(sock, msg, outputPath);
+        // Délai rapide mais naturel entre chaque téléchargement (0.5-2 secondes)
+        if (downloadsThisRun > 0) {
+          await randomDelay(500, 2000);
+          // Pause moyenne toutes les 20 messages, micro-pause toutes les 5
+          if (downloadsThisRun % 20 === 0) {
+            logger.info(`💤 Quick break after ${downloadsThisRun} downloads...`);
+            await randomDelay(5000, 10000);
+          } else if (downloadsThisRun % 5 === 0) {
+            await randomDelay(1000, 3000);
+          }
+          if (job.status !== 'running') {
+            break;
+          }
+        }
 
-      if (success) {
-        downloadProgress.downloaded++;
-      } else {
-        downloadProgress.failed++;
+        try {
+          // Saved by the auto-downloader while this download was in flight: skipped, not downloaded
+          if (await downloadVoiceMessage(session, sock, msg)) {
+            job.downloaded++;
+          } else {
+            job.skipped++;
+          }
+        } catch (error: any) {
+          logger.error(`Failed to download voice ${msg.key.id}: ${error.message}`);
+          job.failed++;
+          job.errors = [...job.errors, { messageId: msg.key.id!, error: error.message, at: new Date().toISOString() }].slice(-MAX_JOB_ERRORS);
+        }
+        downloadsThisRun++;
+        processed.add(msg.key.id!);
+        markProcessed(job, msg.key.id!);
       }
 
-      // Pause moyenne toutes les 20 messages (5-10 secondes)
-      if ((i + 1) % 20 === 0 && i < voiceMessages.length - 1) {
-        logger.info(`💤 Quick break after ${i + 1} downloads...`);
-        await randomDelay(5000, 10000);
+      // Paused, cancelled or waiting for the connection: keep what this run got through
+      if (job.status !== 'running') {
+        save();
+        return;
       }
 
-      // Micro-pause toutes les 5 messages (1-3 secondes)
-      else if ((i + 1) % 5 === 0 && i < voiceMessages.length - 1) {
-        await randomDelay(1000, 3000);
+      // Délai entre chaque conversation (3-8 secondes) pour rester naturel
+      chatIndex++;
+      if (chatIndex < chats.size) {
+        logger.info(`⏸️  Moving to next conversation...`);
+        await randomDelay(3000, 8000);
       }
     }
 
-    downloadProgress.status = 'completed';
-    logger.info(`\n🎉 Download completed!`);
-    logger.info(`Total: ${downloadProgress.total} | Downloaded: ${downloadProgress.downloaded} | Failed: ${downloadProgress.failed}`);
-    logger.info(`Files saved in: ${outputPath}`);
-
-    return downloadProgress;
-
+    if (job.status === 'running') {
+      update(job, { status: 'completed', processedChats: chats.size, finishedAt: new Date().toISOString() });
+      logger.info(`🎉 Download job ${job.id} completed. Total: ${job.total} | Downloaded: ${job.downloaded} | Skipped: ${job.skipped} | Failed: ${job.failed}`);
+    }
   } catch (error: any) {
-    logger.error('Error during voice download:', error.message || error);
-    logger.error('Error stack:', error.stack);
-    downloadProgress.status = 'idle';
-    throw error;
+    logger.error(`Download job ${job.id} failed: ${error.message}`);
+    update(job, { status: 'failed', error: error.message, finishedAt: new Date().toISOString() });
   }
 }
 
-// Télécharge les vocaux de TOUTES les conversations
-export async function downloadVoicesFromAllChats(
-  sock: WASocket,
-  messagesLimit: number = 100,
-  outputDir: string = './downloaded_voices'
-): Promise<DownloadProgress> {
+// Start the oldest queued job whose session is connected, unless one is already running
+async function runNext() {
+  if (activeJob) {
+    return;
+  }
 
-  if (downloadProgress.status === 'running') {
-    throw new Error('Download already in progress');
+  for (const job of jobs.filter(j => j.status === 'queued' && !getSession(j.sessionId))) {
+    update(job, { status: 'failed', error: `Session not found: ${job.sessionId}`, finishedAt: new Date().toISOString() });
   }
 
-  downloadProgress.total = 0;
-  downloadProgress.downloaded = 0;
-  downloadProgress.failed = 0;
-  downloadProgress.status = 'running';
-  downloadProgress.totalChats = 0;
-  downloadProgress.processedChats = 0;
+  const job = jobs.find(j => j.status === 'queued' && isConnected(j.sessionId));
+  if (!job) {
+    return;
+  }
 
+  activeJob = job;
   try {
-    logger.info(`🔍 Fetching all conversations...`);
-
-    // Récupérer tous les messages depuis le store
-    let result: any[] = [];
-
-    try {
-      const historyResult = await sock.fetchMessageHistory(messagesLimit, undefined as any, undefined as any);
-      if (historyResult && Array.isArray(historyResult)) {
-        result = historyResult;
-        logger.info(`Fetched ${result.length} messages from history`);
-      }
-    } catch (historyError: any) {
-      logger.warn(`Could not fetch message history: ${historyError.message}`);
-      logger.info(`This feature requires WhatsApp to sync message history first.`);
-      logger.info(`Please wait a few minutes for WhatsApp to sync, then try again.`);
-    }
-
-    if (result.length === 0) {
-      logger.warn(`⚠️  No cached messages found. Feature requires message history sync.`);
-      logger.info(`💡 Tip: Wait for WhatsApp history sync to complete, or send yourself a voice message first!`);
-      downloadProgress.status = 'completed';
-      return downloadProgress;
-    }
-
-    logger.info(`Found ${result.length} cached messages`);
-
-    // Extraire tous les chats uniques qui contiennent des vocaux
-    const chatsWithVoices = new Map<string, any[]>();
-
-    result.forEach((msg: any) => {
-      if (msg.message?.audioMessage?.ptt === true && msg.key?.remoteJid) {
-        const chatId = msg.key.remoteJid;
-        if (!chatsWithVoices.has(chatId)) {
-          chatsWithVoices.set(chatId, []);
-        }
-        chatsWithVoices.get(chatId)!.push(msg);
-      }
-    });
-
-    const chatList = Array.from(chatsWithVoices.entries());
-    downloadProgress.totalChats = chatList.length;
-
-    logger.info(`📊 Found ${chatList.length} conversations with voice messages`);
-
-    // Calculer le nombre total de vocaux
-    const totalVoices = chatList.reduce((sum, [_, msgs]) => sum + msgs.length, 0);
-    downloadProgress.total = totalVoices;
-
-    logger.info(`🎙️  Total voice messages to download: ${totalVoices}`);
-
-    // Créer le dossier de sortie principal
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
-    const mainOutputPath = path.join(outputDir, `all_voices_${timestamp}`);
-
-    if (!fs.existsSync(mainOutputPath)) {
-      fs.mkdirSync(mainOutputPath, { recursive: true });
-    }
-
-    // Loop sur chaque conversation
-    for (let chatIndex = 0; chatIndex < chatList.length; chatIndex++) {
-      const currentStatus = downloadProgress.status as DownloadProgress['status'];
-      if (currentStatus === 'paused') {
-        logger.warn('Download paused by user');
-        break;
-      }
-
-      const [chatId, voiceMessages] = chatList[chatIndex];
-      const chatName = chatId.split('@')[0];
-
-      downloadProgress.currentChat = chatId;
-      downloadProgress.processedChats = chatIndex;
+    await runJob(job);
+  } finally {
+    activeJob = null;
+    void runNext();
+  }
+}
 
-      logger.info(`\n📱 [${chatIndex + 1}/${chatList.length}] Processing chat: ${chatName} (${voiceMessages.length} voices)`);
+export function createDownloadJob(sessionId: string, options: DownloadJobOptions): DownloadJob {
+  const { chatId = null, messagesLimit = 100 } = options;
+  // A second job would only skip what the first one downloads
+  const pending = jobs.find(
+    j => j.sessionId === sessionId && j.chatId === chatId && ['queued', 'running', 'paused'].includes(j.status)
+  );
+  if (pending) {
+    throw new ApiError(
+      'DOWNLOAD_IN_PROGRESS',
+      `Download job ${pending.id} is already ${pending.status} for ${chatId || 'all chats'}`
+    );
+  }
 
-      // Créer un dossier par conversation
-      const chatOutputPath = path.join(mainOutputPath, chatName);
-      if (!fs.existsSync(chatOutputPath)) {
-        fs.mkdirSync(chatOutputPath, { recursive: true });
-      }
+  const now = new Date().toISOString();
 
-      // Télécharger chaque vocal de cette conversation
-      for (let i = 0; i < voiceMessages.length; i++) {
-        const voiceStatus = downloadProgress.status as DownloadProgress['status'];
-        if (voiceStatus === 'paused') {
-          break;
-        }
+  const job: DownloadJob = {
+    id: crypto.randomUUID(),
+    sessionId,
+    chatId,
+    messagesLimit,
+    status: 'queued',
+    total: 0,
+    downloaded: 0,
+    skipped: 0,
+    failed: 0,
+    errors: [],
+    createdAt: now,
+    updatedAt: now,
+    processedIds: [],
+  };
+  jobs.push(job);
+  update(job);
 
-        const msg = voiceMessages[i];
+  logger.info(`[${sessionId}] 📬 Queued download job ${job.id} for ${chatId || 'all chats'}`);
+  void runNext();
+  return job;
+}
 
-        // Délai rapide entre chaque téléchargement (0.5-2 secondes)
-        if (i > 0) {
-          await randomDelay(500, 2000);
-        }
+export function listDownloadJobs(sessionId: string): DownloadJobView[] {
+  return jobs.filter(j => j.sessionId === sessionId).map(view);
+}
 
-        const success = await downloadVoiceMessage(sock, msg, chatOutputPath);
+function findJob(sessionId: string, id: string): DownloadJob | null {
+  return jobs.find(j => j.sessionId === sessionId && j.id === id) || null;
+}
 
-        if (success) {
-          downloadProgress.downloaded++;
-        } else {
-          downloadProgress.failed++;
-        }
+export function getDownloadJob(sessionId: string, id: string): DownloadJobView | null {
+  const job = findJob(sessionId, id);
+  return job ? view(job) : null;
+}
 
-        // Pause toutes les 20 messages
-        if ((i + 1) % 20 === 0 && i < voiceMessages.length - 1) {
-          logger.info(`💤 Quick break after ${i + 1} downloads...`);
-          await randomDelay(5000, 10000);
-        }
-        // Micro-pause toutes les 5 messages
-        else if ((i + 1) % 5 === 0 && i < voiceMessages.length - 1) {
-          await randomDelay(1000, 3000);
-        }
-      }
+// The running job stops after the message in flight; throws for unknown jobs or invalid transitions
+function transition(sessionId: string, id: string, from: DownloadJobStatus[], changes: Partial<DownloadJob>): DownloadJobView {
+  const job = findJob(sessionId, id);
+  if (!job) {
+    throw new ApiError('JOB_NOT_FOUND', `Download job not found: ${id}`);
+  }
+  if (!from.includes(job.status)) {
+    throw new ApiError('INVALID_JOB_STATE', `Download job is ${job.status}`);
+  }
 
-      // Délai entre chaque conversation (3-8 secondes) pour rester naturel
-      const nextStatus = downloadProgress.status as DownloadProgress['status'];
-      if (chatIndex < chatList.length - 1 && nextStatus !== 'paused') {
-        logger.info(`⏸️  Moving to next conversation...`);
-        await randomDelay(3000, 8000);
-      }
-    }
+  update(job, changes);
+  void runNext();
+  return view(job);
+}
 
-    downloadProgress.processedChats = chatList.length;
-    downloadProgress.status = 'completed';
+export function pauseDownloadJob(sessionId: string, id: string): DownloadJobView {
+  return transition(sessionId, id, ['queued', 'running'], { status: 'paused' });
+}
 
-    logger.info(`\n🎉 All downloads completed!`);
-    logger.info(`Conversations processed: ${downloadProgress.processedChats}/${downloadProgress.totalChats}`);
-    logger.info(`Total: ${downloadProgress.total} | Downloaded: ${downloadProgress.downloaded} | Failed: ${downloadProgress.failed}`);
-    logger.info(`Files saved in: ${mainOutputPath}`);
+export function resumeDownloadJob(sessionId: string, id: string): DownloadJobView {
+  return transition(sessionId, id, ['paused', 'failed'], { status: 'queued', finishedAt: undefined });
+}
 
-    return downloadProgress;
+export function cancelDownloadJob(sessionId: string, id: string): DownloadJobView {
+  return transition(sessionId, id, ['queued', 'running', 'paused'], { status: 'cancelled', finishedAt: new Date().toISOString() });
+}
 
-  } catch (error: any) {
-    logger.error('Error during voice download:', error.message || error);
-    logger.error('Error stack:', error.stack);
-    downloadProgress.status = 'idle';
-    throw error;
+// Jobs interrupted by a restart go back to the queue and start once their session connects
+export function initializeDownloadJobs() {
+  for (const job of jobs.filter(j => j.status === 'running')) {
+    job.status = 'queued';
   }
-}
+  save();
 
-export function getDownloadProgress(): DownloadProgress {
-  return { ...downloadProgress };
-}
+  onWhatsAppEvent('connection.update', ({ connection }) => {
+    if (connection === 'open') {
+      void runNext();
+    }
+  });
 
-export function stopDownload() {
-  if (downloadProgress.status === 'running') {
-    downloadProgress.status = 'paused';
-    logger.warn('Download paused by user');
+  const pending = jobs.filter(j => j.status === 'queued').length;
+  if (pending > 0) {
+    logger.info(`🎙️ ${pending} download job(s) waiting for their session`);
   }
 }
@@ -0,0 +1,131 @@
+import archiver from 'archiver';
+import fs from 'fs';
+import pino from 'pino';
+import { Writable } from 'stream';
+import { AudioFormatError, cachedMp3, convertAudio } from './audio.js';
+import { VoiceRecord } from './voiceIndex.js';
+import { WhatsAppSession } from './whatsapp.js';
+
+const logger = pino({ level: 'info' });
+
+export type ExportFormat = 'ogg' | 'mp3' | 'wav';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['ogg', 'mp3', 'wav'];
+
+interface ManifestEntry {
+  file: string;
+  id: string;
+  messageId: string | null;
+  contact: string;
+  participant: string | null;
+  direction: string;
+  timestamp: string;
+  seconds: number | null;
+  format: ExportFormat;
+}
+
+const MANIFEST_COLUMNS: (keyof ManifestEntry)[] = ['file', 'id', 'messageId', 'contact', 'participant', 'direction', 'timestamp', 'seconds', 'format'];
+
+// <number>/2024-01-15_100000_received_<message id>.ogg, sorted by name = sorted by time within a contact
+function entryName(voice: VoiceRecord, format: ExportFormat): string {
+  const time = voice.timestamp.slice(0, 19).replace('T', '_').replace(/:/g, '');
+  const number = voice.contact.split('@')[0];
+  return `${number}/${time}_${voice.direction}_${voice.messageId ?? voice.id}.${format}`;
+}
+
+function csvValue(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function manifestCsv(entries: ManifestEntry[]): string {
+  const rows = entries.map(entry => MANIFEST_COLUMNS.map(column => csvValue(entry[column])).join(','));
+  return [MANIFEST_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+// The recording in the requested format; falls back to the original when ffmpeg cannot convert it
+async function exportFile(session: WhatsAppSession, voice: VoiceRecord, format: ExportFormat) {
+  try {
+    if (format === 'mp3') {
+      return { filePath: await cachedMp3(voice.path, session.mp3CacheKey(voice)), format, temporary: false };
+    }
+    if (format === 'wav') {
+      return { filePath: await convertAudio(voice.path, 'wav'), format, temporary: true };
+    }
+  } catch (error: any) {
+    if (!(error instanceof AudioFormatError)) {
+      throw error;
+    }
+    logger.warn(`[${session.id}] Could not convert voice ${voice.id} to ${format}, exporting the original: ${error.message}`);
+  }
+  return { filePath: voice.path, format: 'ogg' as ExportFormat, temporary: false };
+}
+
+// Write a ZIP of the recordings plus manifest.json and manifest.csv to `output`. Files are added
+// one at a time and only once the previous one has been written, so memory and temporary disk
+// use stay at one recording whatever the size of the export.
+export async function streamVoiceArchive(
+  session: WhatsAppSession,
+  voices: VoiceRecord[],
+  format: ExportFormat,
+  output: Writable
+): Promise<void> {
+  // Opus and MP3 are already compressed; WAV is worth deflating
+  const archive = archiver('zip', format === 'wav' ? { zlib: { level: 6 } } : { store: true });
+  const closed = new Promise<void>(resolve => output.once('close', resolve));
+  let aborted = false;
+  output.once('close', () => {
+    if (!output.writableFinished) {
+      aborted = true;
+      archive.abort();
+    }
+  });
+
+  const failed = new Promise<never>((_, reject) => archive.once('error', reject));
+  failed.catch(() => {}); // surfaced by the awaits below
+  archive.on('warning', error => logger.warn(`[${session.id}] Voice export: ${error.message}`));
+  archive.pipe(output);
+
+  const entries: ManifestEntry[] = [];
+  for (const voice of voices) {
+    if (aborted) {
+      return;
+    }
+    if (!fs.existsSync(voice.path)) {
+      logger.warn(`[${session.id}] Voice ${voice.id} is indexed but ${voice.path} is missing, skipped from export`);
+      continue;
+    }
+
+    const file = await exportFile(session, voice, format);
+    const name = entryName(voice, file.format);
+    const written = new Promise(resolve => archive.once('entry', resolve));
+    archive.file(file.filePath, { name, date: new Date(voice.timestamp) });
+    try {
+      await Promise.race([written, closed, failed]);
+    } finally {
+      if (file.temporary) {
+        fs.rmSync(file.filePath, { force: true });
+      }
+    }
+
+    entries.push({
+      file: name,
+      id: voice.id,
+      messageId: voice.messageId,
+      contact: voice.contact,
+      participant: voice.participant ?? null,
+      direction: voice.direction,
+      timestamp: voice.timestamp,
+      seconds: voice.seconds,
+      format: file.format,
+    });
+  }
+
+  if (aborted) {
+    return;
+  }
+  archive.append(JSON.stringify(entries, null, 2), { name: 'manifest.json' });
+  archive.append(manifestCsv(entries), { name: 'manifest.csv' });
+  await Promise.race([archive.finalize(), failed]);
+  logger.info(`[${session.id}] 📦 Exported ${entries.length} voice(s) as ${format}`);
+}
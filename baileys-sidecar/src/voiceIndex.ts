@@ -0,0 +1,334 @@
+import { WAMessage, WAMessageKey } from '@whiskeysockets/baileys';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import pino from 'pino';
+import { dataFile } from './storage.js';
+import { participantJid } from './recipients.js';
+
+const logger = pino({ level: 'info' });
+// Append-only: one JSON record per line, a later line for the same voice replaces the earlier one
+// and a { sessionId, id, deletedAt } line removes it
+const INDEX_FILE = dataFile('voices.jsonl');
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+export type VoiceDirection = 'sent' | 'received';
+
+export interface VoiceRecord {
+  id: string; // derived from the message key, see voiceId()
+  sessionId: string;
+  messageId: string | null; // null for files indexed from disk, whose message is unknown
+  contact: string; // chat JID
+  participant?: string | null; // group voice notes: the member who sent it
+  direction: VoiceDirection;
+  timestamp: string; // when the voice note was sent
+  seconds: number | null;
+  size: number;
+  sha256?: string; // missing on entries written before content hashing
+  path: string; // identical recordings share one file, see saveVoice()
+  fileName: string;
+  savedAt: string;
+}
+
+export type VoiceSortField = 'timestamp' | 'savedAt' | 'size' | 'seconds';
+
+export const VOICE_SORT_FIELDS: VoiceSortField[] = ['timestamp', 'savedAt', 'size', 'seconds'];
+
+export interface VoiceQuery {
+  contact?: string; // JID or phone number
+  participant?: string; // JID or phone number of a group member
+  direction?: VoiceDirection;
+  from?: Date;
+  to?: Date;
+  sort?: VoiceSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
+interface Tombstone {
+  sessionId: string;
+  id: string;
+  deletedAt: string;
+}
+
+const records = new Map<string, VoiceRecord>();
+
+// Stable across re-downloads and file moves: the same WhatsApp message always gets the same id
+export function voiceId(key: Pick<WAMessageKey, 'remoteJid' | 'fromMe' | 'id'>): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${key.remoteJid}|${key.fromMe ? 1 : 0}|${key.id}`)
+    .digest('hex')
+    .slice(0, 24);
+}
+
+// Files indexed from disk have no message id; the file name's timestamp stands in for it
+export function legacyMessageId(timestamp: string): string {
+  return `legacy-${Date.parse(timestamp) / 1000}`;
+}
+
+export function hashVoice(audio: Buffer): string {
+  return crypto.createHash('sha256').update(audio).digest('hex');
+}
+
+// Canonical location of a voice note: <voicesPath>/<chat number>/<direction>_<message id>.ogg.
+// Keyed by message id, so two voice notes sent in the same second never overwrite each other.
+export function canonicalVoicePath(voicesPath: string, contact: string, direction: VoiceDirection, messageId: string): string {
+  const chat = contact.split('@')[0].replace(/[^\w.-]/g, '_');
+  return path.join(voicesPath, chat, `${direction}_${messageId.replace(/[^\w.-]/g, '_')}.ogg`);
+}
+
+function recordKey(sessionId: string, id: string): string {
+  return `${sessionId}:${id}`;
+}
+
+function load() {
+  if (!fs.existsSync(INDEX_FILE)) {
+    return;
+  }
+
+  for (const line of fs.readFileSync(INDEX_FILE, 'utf8').split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const entry: VoiceRecord | Tombstone = JSON.parse(line);
+      if ('deletedAt' in entry) {
+        records.delete(recordKey(entry.sessionId, entry.id));
+      } else {
+        records.set(recordKey(entry.sessionId, entry.id), entry);
+      }
+    } catch {
+      // A crash mid-append leaves a truncated last line
+      logger.warn(`Skipping unreadable line in ${INDEX_FILE}`);
+    }
+  }
+}
+
+function appendLine(entry: VoiceRecord | Tombstone) {
+  fs.mkdirSync(path.dirname(INDEX_FILE), { recursive: true });
+  fs.appendFileSync(INDEX_FILE, JSON.stringify(entry) + '\n');
+}
+
+function append(record: VoiceRecord) {
+  appendLine(record);
+  records.set(recordKey(record.sessionId, record.id), record);
+}
+
+export function indexedVoices(sessionId: string): VoiceRecord[] {
+  return Array.from(records.values()).filter(r => r.sessionId === sessionId);
+}
+
+// Lets downloaders skip the media download for voice notes already on disk
+export function isVoiceSaved(sessionId: string, key: WAMessageKey): boolean {
+  const existing = getVoice(sessionId, voiceId(key));
+  return !!existing && fs.existsSync(existing.path);
+}
+
+// Save a downloaded voice note under its canonical path and index it; shared by the auto-downloader
+// and the bulk downloader. `created` is false when the message was already saved, and audio
+// identical to a file already on disk (a forwarded voice note) is indexed against that file.
+export function saveVoice(
+  sessionId: string,
+  voicesPath: string,
+  message: WAMessage,
+  audio: Buffer
+): { record: VoiceRecord; created: boolean } {
+  if (isVoiceSaved(sessionId, message.key)) {
+    return { record: getVoice(sessionId, voiceId(message.key))!, created: false };
+  }
+
+  const sha256 = hashVoice(audio);
+  const sameAudio = indexedVoices(sessionId).find(r => r.sha256 === sha256 && fs.existsSync(r.path));
+  const direction: VoiceDirection = message.key.fromMe ? 'sent' : 'received';
+  const contact = message.key.remoteJid || 'unknown';
+  const filePath = sameAudio?.path ?? canonicalVoicePath(voicesPath, contact, direction, message.key.id || 'unknown');
+
+  if (!sameAudio) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, audio);
+  }
+
+  const record: VoiceRecord = {
+    id: voiceId(message.key),
+    sessionId,
+    messageId: message.key.id || null,
+    contact,
+    participant: participantJid(message.key),
+    direction,
+    timestamp: new Date(Number(message.messageTimestamp || Date.now() / 1000) * 1000).toISOString(),
+    seconds: message.message?.audioMessage?.seconds ?? null,
+    size: audio.length,
+    sha256,
+    path: filePath,
+    fileName: path.basename(filePath),
+    savedAt: new Date().toISOString(),
+  };
+  append(record);
+  return { record, created: true };
+}
+
+// Index a file found on disk without its message (see indexExistingVoices and the migration)
+export function recordVoiceFile(
+  sessionId: string,
+  filePath: string,
+  contact: string,
+  direction: VoiceDirection,
+  timestamp: string
+): VoiceRecord {
+  const stats = fs.statSync(filePath);
+  const messageId = legacyMessageId(timestamp);
+  const record: VoiceRecord = {
+    id: voiceId({ remoteJid: contact, fromMe: direction === 'sent', id: messageId }),
+    sessionId,
+    messageId: null,
+    contact,
+    direction,
+    timestamp,
+    seconds: null,
+    size: stats.size,
+    sha256: hashVoice(fs.readFileSync(filePath)),
+    path: filePath,
+    fileName: path.basename(filePath),
+    savedAt: stats.mtime.toISOString(),
+  };
+  append(record);
+  return record;
+}
+
+// Point an index entry at the file's new location after it was moved
+export function relocateVoice(record: VoiceRecord, filePath: string, sha256: string): VoiceRecord {
+  const moved = { ...record, path: filePath, fileName: path.basename(filePath), sha256 };
+  append(moved);
+  return moved;
+}
+
+// Canonical path of an indexed voice, legacy entries included
+export function voicePathFor(voicesPath: string, record: VoiceRecord): string {
+  return canonicalVoicePath(voicesPath, record.contact, record.direction, record.messageId ?? legacyMessageId(record.timestamp));
+}
+
+// Every index entry backed by the given file
+export function voicesAtPath(sessionId: string, filePath: string): VoiceRecord[] {
+  const resolved = path.resolve(filePath);
+  return indexedVoices(sessionId).filter(r => path.resolve(r.path) === resolved);
+}
+
+// Auto-downloaded file names of older versions; the earliest ones did not record the direction
+export const AUTO_DOWNLOAD_FILE = /^(?:(sent|received)_)?voice_(\d+)\.ogg$/;
+
+// One-time import of voices saved before the index existed
+// (<voicesPath>/YYYY-MM-DD/<number>/[<direction>_]voice_<timestamp>.ogg, taken as received
+// when the name has no direction)
+export function indexExistingVoices(sessionId: string, voicesPath: string) {
+  if (indexedVoices(sessionId).length > 0 || !fs.existsSync(voicesPath)) {
+    return;
+  }
+
+  let imported = 0;
+  for (const dateFolder of fs.readdirSync(voicesPath)) {
+    const datePath = path.join(voicesPath, dateFolder);
+    if (!fs.statSync(datePath).isDirectory()) {
+      continue;
+    }
+
+    for (const contact of fs.readdirSync(datePath)) {
+      const contactPath = path.join(datePath, contact);
+      if (!fs.statSync(contactPath).isDirectory()) {
+        continue;
+      }
+
+      for (const fileName of fs.readdirSync(contactPath)) {
+        const match = fileName.match(AUTO_DOWNLOAD_FILE);
+        if (!match) {
+          continue;
+        }
+
+        const timestamp = new Date(parseInt(match[2]) * 1000).toISOString();
+        const direction = (match[1] || 'received') as VoiceDirection;
+        recordVoiceFile(sessionId, path.join(contactPath, fileName), `${contact}@s.whatsapp.net`, direction, timestamp);
+        imported++;
+      }
+    }
+  }
+
+  if (imported > 0) {
+    logger.info(`[${sessionId}] Indexed ${imported} voice(s) already on disk`);
+  }
+}
+
+export function getVoice(sessionId: string, id: string): VoiceRecord | null {
+  return records.get(recordKey(sessionId, id)) || null;
+}
+
+// Drop the index entry (the caller removes the file)
+export function removeVoice(sessionId: string, id: string) {
+  if (records.delete(recordKey(sessionId, id))) {
+    appendLine({ sessionId, id, deletedAt: new Date().toISOString() });
+  }
+}
+
+// Unindex every voice of a deleted session; the files stay on disk
+export function removeSessionVoices(sessionId: string) {
+  for (const record of indexedVoices(sessionId)) {
+    removeVoice(sessionId, record.id);
+  }
+}
+
+function matchesJid(jid: string | null | undefined, query: string): boolean {
+  if (!jid) {
+    return false;
+  }
+  return query.includes('@') ? jid === query : jid.split('@')[0] === query.replace(/\D/g, '');
+}
+
+// Every match of the query, sorted; limit and offset are ignored (see listVoices for pages)
+export function findVoices(sessionId: string, query: VoiceQuery = {}): VoiceRecord[] {
+  const { contact, participant, direction, from, to, sort = 'timestamp', order = 'desc' } = query;
+
+  const matching = indexedVoices(sessionId).filter(r =>
+    (!contact || matchesJid(r.contact, contact)) &&
+    (!participant || matchesJid(r.participant, participant)) &&
+    (!direction || r.direction === direction) &&
+    (!from || new Date(r.timestamp) >= from) &&
+    (!to || new Date(r.timestamp) <= to)
+  );
+
+  const sign = order === 'asc' ? 1 : -1;
+  matching.sort((a, b) => {
+    const x = a[sort] ?? -1;
+    const y = b[sort] ?? -1;
+    return (x < y ? -1 : x > y ? 1 : 0) * sign;
+  });
+  return matching;
+}
+
+export function listVoices(sessionId: string, query: VoiceQuery = {}) {
+  const limit = Math.min(query.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const offset = query.offset ?? 0;
+  const matching = findVoices(sessionId, query);
+
+  return {
+    total: matching.length,
+    offset,
+    limit,
+    voices: matching.slice(offset, offset + limit),
+  };
+}
+
+export function getVoiceStats(sessionId: string) {
+  const voices = indexedVoices(sessionId);
+  const lastDownloaded = voices.reduce<string | null>((latest, r) => (!latest || r.savedAt > latest ? r.savedAt : latest), null);
+
+  return {
+    total: voices.length,
+    sent: voices.filter(r => r.direction === 'sent').length,
+    received: voices.filter(r => r.direction === 'received').length,
+    totalSize: voices.reduce((sum, r) => sum + r.size, 0),
+    lastDownloaded,
+  };
+}
+
+load();
@@ -0,0 +1,276 @@
+import { WAMessage, proto } from '@whiskeysockets/baileys';
+import { Boom } from '@hapi/boom';
+import crypto from 'crypto';
+import pino from 'pino';
+import { onVoiceSaved, onWhatsAppEvent } from './whatsapp.js';
+import { dataFile, readJsonFile, writeRetainedRecords } from './storage.js';
+import { positiveInteger } from './config.js';
+
+const logger = pino({ level: 'info' });
+const DELIVERIES_FILE = dataFile('webhook-deliveries.json');
+const RETRY_BASE_DELAY = positiveInteger('WEBHOOK_RETRY_DELAY_MS', 10000);
+const MAX_RETRY_DELAY = 30 * 60_000; // 30 minutes max
+const MAX_ATTEMPTS = positiveInteger('WEBHOOK_MAX_ATTEMPTS', 8);
+const REQUEST_TIMEOUT = 10_000;
+
+export type WebhookEventType = 'message.text' | 'message.voice' | 'message.receipt' | 'connection.update';
+
+export interface WebhookEvent {
+  id: string;
+  event: WebhookEventType;
+  sessionId: string;
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  url: string;
+  payload: WebhookEvent;
+  status: 'retrying' | 'failed';
+  attempts: number;
+  lastError: string;
+  nextAttemptAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+let webhookUrls: string[] = [];
+let webhookSecret = '';
+let deliveries: WebhookDelivery[] = readJsonFile<WebhookDelivery[]>(DELIVERIES_FILE, []);
+let retryTimer: NodeJS.Timeout | null = null;
+// A retry pass is posting; the next one is scheduled when it ends, so no delivery is posted twice
+let retrying = false;
+
+// Only deliveries that gave up expire; pending ones are kept until they are delivered
+function save() {
+  deliveries = writeRetainedRecords(DELIVERIES_FILE, deliveries, d => (d.status === 'failed' ? d.updatedAt : null));
+}
+
+// Signature over "<timestamp>.<body>" so a captured request cannot be replayed later with a new timestamp
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+async function post(url: string, payload: WebhookEvent) {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-KeepClose-Event': payload.event,
+    'X-KeepClose-Delivery': payload.id,
+    'X-KeepClose-Timestamp': timestamp,
+  };
+  // Without a secret a signature would prove nothing, so none is sent
+  if (webhookSecret) {
+    headers['X-KeepClose-Signature'] = `sha256=${signPayload(webhookSecret, timestamp, body)}`;
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+}
+
+function recordFailure(delivery: WebhookDelivery, error: Error) {
+  delivery.attempts++;
+  delivery.lastError = error.message;
+  delivery.updatedAt = new Date().toISOString();
+
+  if (delivery.attempts >= MAX_ATTEMPTS) {
+    delivery.status = 'failed';
+    delivery.nextAttemptAt = undefined;
+    logger.error(`❌ Webhook ${delivery.payload.event} to ${delivery.url} failed after ${delivery.attempts} attempts: ${error.message}`);
+  } else {
+    const backoffDelay = Math.min(RETRY_BASE_DELAY * Math.pow(2, delivery.attempts - 1), MAX_RETRY_DELAY);
+    delivery.status = 'retrying';
+    delivery.nextAttemptAt = new Date(Date.now() + backoffDelay).toISOString();
+    logger.warn(`Webhook ${delivery.payload.event} to ${delivery.url} failed (${error.message}), retrying in ${backoffDelay}ms`);
+  }
+}
+
+async function deliver(url: string, payload: WebhookEvent) {
+  try {
+    await post(url, payload);
+  } catch (error: any) {
+    const now = new Date().toISOString();
+    const delivery: WebhookDelivery = {
+      id: crypto.randomUUID(),
+      url,
+      payload,
+      status: 'retrying',
+      attempts: 0,
+      lastError: '',
+      createdAt: now,
+      updatedAt: now,
+    };
+    recordFailure(delivery, error);
+    deliveries.push(delivery);
+    save();
+    scheduleRetry();
+  }
+}
+
+async function retryDueDeliveries() {
+  const now = Date.now();
+  const due = deliveries.filter(d => d.status === 'retrying' && new Date(d.nextAttemptAt!).getTime() <= now);
+
+  retrying = true;
+  try {
+    for (const delivery of due) {
+      try {
+        await post(delivery.url, delivery.payload);
+        deliveries = deliveries.filter(d => d !== delivery);
+        logger.info(`📨 Webhook ${delivery.payload.event} delivered to ${delivery.url} after ${delivery.attempts + 1} attempts`);
+      } catch (error: any) {
+        recordFailure(delivery, error);
+      }
+    }
+
+    if (due.length > 0) {
+      save();
+    }
+  } finally {
+    retrying = false;
+  }
+  scheduleRetry();
+}
+
+function scheduleRetry() {
+  if (retrying) {
+    return;
+  }
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  const next = deliveries
+    .filter(d => d.status === 'retrying')
+    .map(d => new Date(d.nextAttemptAt!).getTime())
+    .sort((a, b) => a - b)[0];
+
+  if (next !== undefined) {
+    retryTimer = setTimeout(() => void retryDueDeliveries(), Math.max(next - Date.now(), 0));
+    retryTimer.unref();
+  }
+}
+
+export function dispatchWebhook(sessionId: string, event: WebhookEventType, data: Record<string, unknown>) {
+  if (webhookUrls.length === 0) {
+    return;
+  }
+
+  const payload: WebhookEvent = {
+    id: crypto.randomUUID(),
+    event,
+    sessionId,
+    timestamp: new Date().toISOString(),
+    data,
+  };
+
+  for (const url of webhookUrls) {
+    void deliver(url, payload);
+  }
+}
+
+// Deliveries still being retried and those that gave up
+export function getWebhookDeliveries(status?: WebhookDelivery['status']): WebhookDelivery[] {
+  return deliveries.filter(d => !status || d.status === status);
+}
+
+function messageText(message: WAMessage): string | null {
+  return message.message?.conversation || message.message?.extendedTextMessage?.text || null;
+}
+
+function messageTimestamp(message: WAMessage): string {
+  return new Date(Number(message.messageTimestamp || 0) * 1000).toISOString();
+}
+
+export function initializeWebhooks() {
+  webhookUrls = (process.env.WEBHOOK_URLS || '').split(',').map(url => url.trim()).filter(Boolean);
+  webhookSecret = process.env.WEBHOOK_SECRET || '';
+
+  if (webhookUrls.length === 0) {
+    return;
+  }
+  if (!webhookSecret) {
+    logger.warn('⚠️ WEBHOOK_SECRET not configured! Webhooks are sent without X-KeepClose-Signature');
+  }
+  logger.info(`Webhooks enabled for ${webhookUrls.length} URL(s)`);
+
+  onWhatsAppEvent('messages.upsert', ({ messages, type }, session) => {
+    if (type !== 'notify') {
+      return;
+    }
+
+    for (const msg of messages) {
+      const text = messageText(msg);
+      if (!msg.key.fromMe && text) {
+        dispatchWebhook(session.id, 'message.text', {
+          messageId: msg.key.id,
+          chat: msg.key.remoteJid,
+          from: msg.key.participant || msg.key.remoteJid,
+          pushName: msg.pushName || null,
+          text,
+          sentAt: messageTimestamp(msg),
+        });
+      }
+    }
+  });
+
+  onVoiceSaved(({ session, message, filePath, size }) => {
+    if (message.key.fromMe) {
+      return;
+    }
+
+    dispatchWebhook(session.id, 'message.voice', {
+      messageId: message.key.id,
+      chat: message.key.remoteJid,
+      from: message.key.participant || message.key.remoteJid,
+      pushName: message.pushName || null,
+      seconds: message.message?.audioMessage?.seconds || null,
+      filePath,
+      size,
+      sentAt: messageTimestamp(message),
+    });
+  });
+
+  onWhatsAppEvent('messages.update', (updates, session) => {
+    for (const { key, update } of updates) {
+      if (!key.fromMe || typeof update.status !== 'number') {
+        continue;
+      }
+
+      const status =
+        update.status >= proto.WebMessageInfo.Status.READ ? 'read'
+        : update.status === proto.WebMessageInfo.Status.DELIVERY_ACK ? 'delivered'
+        : null;
+
+      if (status) {
+        dispatchWebhook(session.id, 'message.receipt', { messageId: key.id, chat: key.remoteJid, status });
+      }
+    }
+  });
+
+  onWhatsAppEvent('connection.update', ({ connection, lastDisconnect }, session) => {
+    if (!connection) {
+      return;
+    }
+
+    dispatchWebhook(session.id, 'connection.update', {
+      connection,
+      status: session.getConnectionStatus(),
+      statusCode: (lastDisconnect?.error as Boom)?.output?.statusCode ?? null,
+    });
+  });
+
+  scheduleRetry();
+}
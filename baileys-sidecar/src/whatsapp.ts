@@ -1,271 +1,383 @@
-import makeWASocket, {
-  DisconnectReason,
-  useMultiFileAuthState,
-  WASocket,
-  delay,
-  MessageType,
+import {
+  AnyMessageContent,
+  BaileysEventMap,
+  GroupMetadata,
+  isPnUser,
   WAMessage,
-  downloadMediaMessage,
-  proto
 } from '@whiskeysockets/baileys';
-import { Boom } from '@hapi/boom';
 import pino from 'pino';
 import qrcode from 'qrcode-terminal';
 import fs from 'fs';
-import path from 'path';
+import { WhatsAppTransport, TransportFactory } from './transport.js';
+import { ConnectionStatus, ConnectionSupervisor } from './connectionSupervisor.js';
+import { prepareVoiceNote, removeCachedMp3 } from './audio.js';
+import { OutboundMedia } from './media.js';
+import { ApiError } from './errors.js';
+import { NumberCheck, lookupNumbers, normalizeJid } from './recipients.js';
+import {
+  VoiceQuery,
+  VoiceRecord,
+  findVoices,
+  getVoice,
+  getVoiceStats,
+  indexExistingVoices,
+  listVoices,
+  removeVoice,
+  isVoiceSaved,
+  saveVoice,
+  voicesAtPath,
+} from './voiceIndex.js';
 
 const logger = pino({ level: 'info' });
-const AUTH_PATH = process.env.BAILEYS_AUTH_PATH || './auth_info';
-const VOICES_PATH = process.env.VOICES_PATH || './downloaded_voices';
-
-let sock: WASocket | null = null;
-let currentQR: string | null = null;
-let connectionStatus: 'connected' | 'connecting' | 'disconnected' | 'qr_pending' = 'disconnected';
-let reconnectAttempts = 0;
-const MAX_RECONNECT_DELAY = 60_000; // 1 minute max
-
-// Stats for downloaded voices
-let voiceStats = {
-  total: 0,
-  lastDownloaded: null as string | null,
-};
-
-// Ensure voices directory exists
-if (!fs.existsSync(VOICES_PATH)) {
-  fs.mkdirSync(VOICES_PATH, { recursive: true });
-  logger.info(`Created voices directory: ${VOICES_PATH}`);
+
+// Listeners registered by other modules, attached to every socket of every session
+const subscriptions: { event: keyof BaileysEventMap; listener: (arg: any, session: WhatsAppSession) => void }[] = [];
+
+export interface GroupSummary {
+  id: string;
+  subject: string;
+  description: string | null;
+  owner: string | null;
+  createdAt: string | null;
+  announce: boolean; // only admins can send
+  participants: { jid: string; lid: string | null; admin: 'admin' | 'superadmin' | null }[];
 }
 
-// Auto-download voice message
-async function autoDownloadVoice(message: proto.IWebMessageInfo) {
-  try {
-    const audioMessage = message.message?.audioMessage;
-    if (!audioMessage || !audioMessage.ptt || !audioMessage.url) {
-      return; // Not a voice message
-    }
+export interface SavedVoice {
+  session: WhatsAppSession;
+  message: WAMessage;
+  filePath: string;
+  size: number;
+}
+
+const voiceSavedListeners: ((voice: SavedVoice) => void)[] = [];
+
+export interface ReconnectAttempt {
+  session: WhatsAppSession;
+  attempt: number;
+  delayMs: number;
+}
+
+const reconnectListeners: ((attempt: ReconnectAttempt) => void)[] = [];
+
+// Sessions with a socket, so late subscribers can attach to it
+const activeSessions = new Set<WhatsAppSession>();
+
+// Subscribe to a Baileys event on all sessions; the listener survives reconnects
+export function onWhatsAppEvent<T extends keyof BaileysEventMap>(
+  event: T,
+  listener: (arg: BaileysEventMap[T], session: WhatsAppSession) => void
+) {
+  subscriptions.push({ event, listener });
+  for (const session of activeSessions) {
+    session.supervisor.listen(event, arg => listener(arg, session));
+  }
+}
 
-    const from = message.key?.remoteJid?.split('@')[0] || 'unknown';
-    const timestamp = message.messageTimestamp?.toString() || Date.now().toString();
-    const date = new Date(parseInt(timestamp) * 1000);
-    const dateFolder = date.toISOString().split('T')[0]; // YYYY-MM-DD
+// Called after a voice note has been auto-saved to the session's voices directory
+export function onVoiceSaved(listener: (voice: SavedVoice) => void) {
+  voiceSavedListeners.push(listener);
+}
+
+// Called when a dropped connection is scheduled to reconnect
+export function onReconnect(listener: (attempt: ReconnectAttempt) => void) {
+  reconnectListeners.push(listener);
+}
 
-    // Create folder structure: downloaded_voices/YYYY-MM-DD/contact_number/
-    const chatFolder = path.join(VOICES_PATH, dateFolder, from);
-    if (!fs.existsSync(chatFolder)) {
-      fs.mkdirSync(chatFolder, { recursive: true });
+// One linked WhatsApp account: its socket (owned by the supervisor), auth state and voices directory
+export class WhatsAppSession {
+  readonly supervisor: ConnectionSupervisor;
+
+  constructor(
+    readonly id: string,
+    readonly authPath: string,
+    readonly voicesPath: string,
+    transportFactory: TransportFactory
+  ) {
+    // Ensure voices directory exists
+    if (!fs.existsSync(voicesPath)) {
+      fs.mkdirSync(voicesPath, { recursive: true });
+      logger.info(`Created voices directory: ${voicesPath}`);
     }
+    indexExistingVoices(id, voicesPath);
 
-    // Download the voice message
-    const buffer = await downloadMediaMessage(
-      message as any,
-      'buffer',
-      {},
-      {
-        logger: pino({ level: 'silent' }),
-        reuploadRequest: sock!.updateMediaMessage,
+    this.supervisor = new ConnectionSupervisor(id, authPath, transportFactory, {
+      attach: () => this.attach(),
+      reconnecting: (attempt, delayMs) => {
+        for (const listener of reconnectListeners) {
+          listener({ session: this, attempt, delayMs });
+        }
+      },
+    });
+  }
+
+  async initialize() {
+    activeSessions.add(this);
+    await this.supervisor.start();
+  }
+
+  // Called for every new socket, after the supervisor's own connection listener
+  private attach() {
+    this.supervisor.listen('connection.update', ({ qr }) => {
+      if (qr) {
+        qrcode.generate(qr, { small: true });
       }
-    );
+    });
 
-    if (!buffer) {
-      logger.warn(`Failed to download voice from ${from}`);
-      return;
-    }
+    this.supervisor.listen('messages.upsert', async ({ messages }) => {
+      // Auto-download ALL voice messages (both sent and received)
+      for (const msg of messages) {
+        if (msg.message) {
+          const direction = msg.key.fromMe ? '📤 Sent' : '📨 Received';
+          logger.info(`[${this.id}] ${direction} message from ${msg.key.remoteJid}`);
+
+          // Auto-download if it's a voice message
+          if (msg.message.audioMessage?.ptt) {
+            logger.info(`[${this.id}] 📥 Voice message detected (${msg.key.fromMe ? 'sent' : 'received'}) from ${msg.key.remoteJid}, downloading...`);
+            await this.autoDownloadVoice(msg);
+          }
+        }
+      }
+    });
 
-    // Save file with timestamp and direction (sent/received)
-    const direction = message.key?.fromMe ? 'sent' : 'received';
-    const fileName = `${direction}_voice_${timestamp}.ogg`;
-    const filePath = path.join(chatFolder, fileName);
-    fs.writeFileSync(filePath, buffer as Buffer);
+    for (const { event, listener } of subscriptions) {
+      this.supervisor.listen(event, arg => listener(arg, this));
+    }
+  }
 
-    voiceStats.total++;
-    voiceStats.lastDownloaded = new Date().toISOString();
+  // Close the socket for good (no reconnect)
+  stop() {
+    activeSessions.delete(this);
+    void this.supervisor.stop();
+  }
 
-    logger.info(`🎙️ Auto-saved voice: ${from}/${fileName} (${(buffer as Buffer).length} bytes)`);
-  } catch (error: any) {
-    logger.error(`Error auto-downloading voice: ${error.message}`);
+  // Graceful shutdown: pending creds are written before the socket closes
+  async shutdown() {
+    activeSessions.delete(this);
+    await this.supervisor.stop(true);
   }
-}
 
-export async function initializeWhatsApp() {
-  const { state, saveCreds } = await useMultiFileAuthState(AUTH_PATH);
+  // Unlink the device and remove its creds; the session waits for a relink
+  async logout() {
+    await this.supervisor.logout();
+  }
 
-  sock = makeWASocket({
-    auth: state,
-    printQRInTerminal: true,
-    logger: pino({ level: 'info' }),
-  });
+  // Remove the creds and start over with a new QR code
+  async relink() {
+    await this.supervisor.relink();
+  }
 
-  sock.ev.on('creds.update', saveCreds);
+  // Auto-download voice message
+  private async autoDownloadVoice(message: WAMessage) {
+    try {
+      const audioMessage = message.message?.audioMessage;
+      if (!audioMessage || !audioMessage.ptt || !audioMessage.url) {
+        return; // Not a voice message
+      }
 
-  sock.ev.on('connection.update', async (update) => {
-    const { connection, lastDisconnect, qr } = update;
+      const from = message.key?.remoteJid?.split('@')[0] || 'unknown';
+      if (isVoiceSaved(this.id, message.key)) {
+        logger.info(`[${this.id}] Voice ${message.key.id} from ${from} already saved`);
+        return;
+      }
 
-    logger.info('Connection update:', JSON.stringify(update, null, 2));
+      // Download the voice message
+      const sock = this.supervisor.getSocket();
+      if (!sock) {
+        return; // torn down meanwhile
+      }
+      const buffer = await sock.downloadMedia(message);
 
-    if (qr) {
-      currentQR = qr;
-      connectionStatus = 'qr_pending';
-      logger.info('QR Code received, scan with WhatsApp app');
-      qrcode.generate(qr, { small: true });
-    }
+      if (!buffer) {
+        logger.warn(`[${this.id}] Failed to download voice from ${from}`);
+        return;
+      }
 
-    if (connection === 'close') {
-      const statusCode = (lastDisconnect?.error as Boom)?.output?.statusCode;
-      const shouldReconnect = statusCode !== DisconnectReason.loggedOut;
+      const { record, created } = saveVoice(this.id, this.voicesPath, message, buffer);
+      if (!created) {
+        return;
+      }
 
-      logger.info(`Connection closed (status: ${statusCode}). Reconnecting: ${shouldReconnect}`);
-      connectionStatus = 'disconnected';
+      logger.info(`[${this.id}] 🎙️ Auto-saved voice: ${record.path} (${buffer.length} bytes)`);
 
-      if (shouldReconnect) {
-        reconnectAttempts++;
-        const backoffDelay = Math.min(5000 * Math.pow(2, reconnectAttempts - 1), MAX_RECONNECT_DELAY);
-        logger.info(`Reconnecting in ${backoffDelay}ms (attempt ${reconnectAttempts})...`);
-        connectionStatus = 'connecting';
-        await delay(backoffDelay);
-        await initializeWhatsApp();
+      for (const listener of voiceSavedListeners) {
+        listener({ session: this, message, filePath: record.path, size: buffer.length });
       }
-    } else if (connection === 'open') {
-      logger.info('WhatsApp connection opened successfully');
-      connectionStatus = 'connected';
-      currentQR = null;
-      reconnectAttempts = 0;
-    } else if (connection === 'connecting') {
-      connectionStatus = 'connecting';
-      logger.info('Connecting to WhatsApp...');
+    } catch (error: any) {
+      logger.error(`[${this.id}] Error auto-downloading voice: ${error.message}`);
     }
-  });
-
-  sock.ev.on('messages.upsert', async ({ messages }) => {
-    // Auto-download ALL voice messages (both sent and received)
-    for (const msg of messages) {
-      if (msg.message) {
-        const direction = msg.key.fromMe ? '📤 Sent' : '📨 Received';
-        logger.info(`${direction} message from ${msg.key.remoteJid}`);
-
-        // Auto-download if it's a voice message
-        if (msg.message.audioMessage?.ptt) {
-          logger.info(`📥 Voice message detected (${msg.key.fromMe ? 'sent' : 'received'}) from ${msg.key.remoteJid}, downloading...`);
-          await autoDownloadVoice(msg);
-        }
-      }
+  }
+
+  private requireConnection(): WhatsAppTransport {
+    const sock = this.supervisor.getSocket();
+    if (!sock) {
+      throw new ApiError('NOT_CONNECTED', `WhatsApp not initialized. Status: ${this.supervisor.getStatus()}`);
     }
-  });
-}
 
-export async function sendTextMessage(to: string, text: string): Promise<string> {
-  if (!sock) {
-    throw new Error('WhatsApp not initialized');
-  }
+    if (this.supervisor.getStatus() !== 'connected') {
+      throw new ApiError('NOT_CONNECTED', `WhatsApp not connected. Status: ${this.supervisor.getStatus()}`);
+    }
 
-  if (connectionStatus !== 'connected') {
-    throw new Error(`WhatsApp not connected. Status: ${connectionStatus}`);
+    return sock;
   }
 
-  const jid = formatJid(to);
-  logger.info(`Sending text message to ${jid}`);
+  // Groups the account belongs to, by subject
+  async listGroups(): Promise<GroupSummary[]> {
+    const groups = await this.requireConnection().groupFetchAllParticipating();
+    return Object.values(groups)
+      .map(summarizeGroup)
+      .sort((a, b) => a.subject.localeCompare(b.subject));
+  }
 
-  const result = await sock.sendMessage(jid, { text });
+  // Whether each phone number is on WhatsApp, and its canonical JID
+  async checkNumbers(numbers: string[]): Promise<NumberCheck[]> {
+    return lookupNumbers(this.id, this.requireConnection(), numbers);
+  }
 
-  return result?.key?.id || 'unknown';
-}
+  // The JID to send to: phone numbers must be on WhatsApp, other JIDs (groups, LIDs) are used as given
+  async resolveRecipient(to: string): Promise<string> {
+    const jid = normalizeJid(to);
+    if (!isPnUser(jid)) {
+      return jid;
+    }
 
-export async function sendAudioMessage(to: string, audioPath: string): Promise<string> {
-  if (!sock) {
-    throw new Error('WhatsApp not initialized');
+    const [check] = await this.checkNumbers([jid]);
+    if (!check.exists) {
+      throw new ApiError('RECIPIENT_NOT_ON_WHATSAPP', `${to} is not on WhatsApp`);
+    }
+    return check.jid!;
   }
 
-  if (connectionStatus !== 'connected') {
-    throw new Error(`WhatsApp not connected. Status: ${connectionStatus}`);
+  // The send methods take a JID from resolveRecipient, which the outbound queue calls first
+  async sendTextMessage(jid: string, text: string): Promise<string> {
+    const sock = this.requireConnection();
+
+    logger.info(`[${this.id}] Sending text message to ${jid}`);
+
+    const result = await sock.sendMessage(jid, { text });
+
+    return result?.key?.id || 'unknown';
   }
 
-  if (!fs.existsSync(audioPath)) {
-    throw new Error(`Audio file not found: ${audioPath}`);
+  async sendAudioMessage(jid: string, audioPath: string): Promise<string> {
+    const sock = this.requireConnection();
+
+    if (!fs.existsSync(audioPath)) {
+      throw new ApiError('AUDIO_NOT_FOUND', `Audio file not found: ${audioPath}`);
+    }
+
+    logger.info(`[${this.id}] Sending audio message to ${jid}, file: ${audioPath}`);
+
+    // Any format ffmpeg reads is converted to a mono Opus voice note (push-to-talk)
+    const note = await prepareVoiceNote(audioPath);
+
+    const result = await sock.sendVoiceNote(jid, note);
+
+    return result?.key?.id || 'unknown';
   }
 
-  const jid = formatJid(to);
-  logger.info(`Sending audio message to ${jid}, file: ${audioPath}`);
+  async sendMediaMessage(jid: string, media: OutboundMedia): Promise<string> {
+    const sock = this.requireConnection();
 
-  const audioBuffer = fs.readFileSync(audioPath);
+    // The upload was accepted with the request: losing it since is our failure, not the client's
+    if (!fs.existsSync(media.filePath)) {
+      throw new ApiError('SEND_FAILED', `Media file is gone: ${media.filePath}`);
+    }
 
-  const result = await sock.sendMessage(jid, {
-    audio: audioBuffer,
-    mimetype: 'audio/ogg; codecs=opus',
-    ptt: true, // Push-to-talk (voice message)
-  });
+    logger.info(`[${this.id}] Sending ${media.kind} message to ${jid}, mimetype: ${media.mimetype}`);
 
-  return result?.key?.id || 'unknown';
-}
+    const result = await sock.sendMessage(jid, mediaContent(media));
 
-export function getConnectionStatus(): string {
-  return connectionStatus;
-}
+    return result?.key?.id || 'unknown';
+  }
 
-export function getCurrentQR(): string | null {
-  return currentQR;
-}
+  getConnectionStatus(): ConnectionStatus {
+    return this.supervisor.getStatus();
+  }
 
-export function getWhatsAppSocket(): WASocket | null {
-  return sock;
-}
+  // Last time the connection opened, null if it never did since startup
+  getLastConnectedAt(): Date | null {
+    return this.supervisor.getLastConnectedAt();
+  }
 
-function formatJid(phoneNumber: string): string {
-  // Remove any non-digit characters
-  const cleaned = phoneNumber.replace(/\D/g, '');
+  // Reconnections since the connection last opened
+  getReconnectAttempts(): number {
+    return this.supervisor.getReconnectAttempts();
+  }
 
-  // WhatsApp JID format: number@s.whatsapp.net
-  return `${cleaned}@s.whatsapp.net`;
-}
+  getCurrentQR(): string | null {
+    return this.supervisor.getCurrentQR();
+  }
 
-export function getVoiceStats() {
-  return { ...voiceStats };
-}
+  getWhatsAppSocket(): WhatsAppTransport | null {
+    return this.supervisor.getSocket();
+  }
 
-export function listDownloadedVoices() {
-  const voices: any[] = [];
+  getVoiceStats() {
+    return getVoiceStats(this.id);
+  }
 
-  if (!fs.existsSync(VOICES_PATH)) {
-    return { total: 0, voices: [] };
+  listDownloadedVoices(query: VoiceQuery = {}) {
+    return listVoices(this.id, query);
   }
 
-  // Read all date folders
-  const dateFolders = fs.readdirSync(VOICES_PATH).filter(f => {
-    const fullPath = path.join(VOICES_PATH, f);
-    return fs.statSync(fullPath).isDirectory();
-  });
+  findDownloadedVoices(query: VoiceQuery = {}): VoiceRecord[] {
+    return findVoices(this.id, query);
+  }
 
-  dateFolders.forEach(dateFolder => {
-    const datePath = path.join(VOICES_PATH, dateFolder);
+  getVoice(id: string): VoiceRecord | null {
+    return getVoice(this.id, id);
+  }
 
-    // Read all contact folders in this date
-    const contactFolders = fs.readdirSync(datePath).filter(f => {
-      const fullPath = path.join(datePath, f);
-      return fs.statSync(fullPath).isDirectory();
-    });
+  // Remove the recording, its cached MP3 and its index entry
+  deleteVoice(id: string): boolean {
+    const voice = getVoice(this.id, id);
+    if (!voice) {
+      return false;
+    }
 
-    contactFolders.forEach(contact => {
-      const contactPath = path.join(datePath, contact);
-
-      // Read all voice files
-      const files = fs.readdirSync(contactPath).filter(f => f.endsWith('.ogg'));
-
-      files.forEach(file => {
-        const filePath = path.join(contactPath, file);
-        const stats = fs.statSync(filePath);
-
-        voices.push({
-          date: dateFolder,
-          contact,
-          fileName: file,
-          size: stats.size,
-          path: filePath,
-          downloadedAt: stats.mtime,
-        });
-      });
-    });
-  });
+    removeCachedMp3(this.mp3CacheKey(voice));
+    removeVoice(this.id, id);
+    // Identical recordings share one file, keep it while another entry uses it
+    if (voicesAtPath(this.id, voice.path).length === 0) {
+      fs.rmSync(voice.path, { force: true });
+    }
+    logger.info(`[${this.id}] 🗑️ Deleted voice ${id} (${voice.path})`);
+    return true;
+  }
+
+  mp3CacheKey(voice: VoiceRecord): string {
+    return `${this.id}-${voice.id}`;
+  }
+}
 
+// Participants are listed by phone number when WhatsApp gives one (LID-addressed groups list LIDs)
+function summarizeGroup(group: GroupMetadata): GroupSummary {
   return {
-    total: voices.length,
-    voices: voices.sort((a, b) => b.downloadedAt.getTime() - a.downloadedAt.getTime()),
+    id: group.id,
+    subject: group.subject,
+    description: group.desc || null,
+    owner: group.ownerPn || group.owner || null,
+    createdAt: group.creation ? new Date(group.creation * 1000).toISOString() : null,
+    announce: !!group.announce,
+    participants: group.participants.map(participant => ({
+      jid: participant.phoneNumber || participant.id,
+      lid: participant.lid || (participant.id.endsWith('@lid') ? participant.id : null),
+      admin: participant.admin || null,
+    })),
   };
 }
+
+function mediaContent({ kind, filePath, mimetype, caption, fileName }: OutboundMedia): AnyMessageContent {
+  // Baileys streams { url } from disk instead of loading the whole file
+  const file = { url: filePath };
+
+  switch (kind) {
+    case 'image':
+      return { image: file, mimetype, caption };
+    case 'video':
+      return { video: file, mimetype, caption };
+    case 'document':
+      return { document: file, mimetype, fileName, caption };
+  }
+}
@@ -0,0 +1,59 @@
+import './support/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { ADMIN_KEY, SEND_KEY } from './support/env.js';
+import { FakeTransport } from './support/fakeTransport.js';
+import { startServer, get, postJson, TestServer } from './support/server.js';
+import { initializeSessions } from '../src/sessions.js';
+import { loadApiKeys } from '../src/auth.js';
+
+let fake: FakeTransport;
+let server: TestServer;
+
+before(async () => {
+  fake = new FakeTransport();
+  await initializeSessions(async () => fake);
+  fake.open();
+  server = await startServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+test('health check is public', async () => {
+  assert.equal((await get(`${server.url}/health`, null)).status, 200);
+});
+
+test('missing and unknown keys get a 401', async () => {
+  for (const apiKey of [null, 'not-a-key']) {
+    const res = await postJson(`${server.url}/send/text`, { to: '33612345678', text: 'hi' }, apiKey);
+    assert.equal(res.status, 401);
+    const body = await res.json();
+    assert.equal(body.success, false);
+    assert.equal(body.code, 'UNAUTHORIZED');
+  }
+  assert.equal(fake.sent.length, 0);
+});
+
+test('a key without the route scope gets a 403', async () => {
+  for (const path of ['/voices/list', '/download/progress', '/qr']) {
+    const res = await get(`${server.url}${path}`, SEND_KEY);
+    assert.equal(res.status, 403, path);
+    assert.equal((await res.json()).code, 'FORBIDDEN');
+  }
+});
+
+test('a scoped key reaches its routes and admin reaches everything', async () => {
+  const res = await postJson(`${server.url}/send/text`, { to: '33612345678', text: 'hi' }, SEND_KEY);
+  assert.equal(res.status, 200);
+  assert.equal((await get(`${server.url}/status`, SEND_KEY)).status, 200);
+  assert.equal((await get(`${server.url}/voices/list`, ADMIN_KEY)).status, 200);
+});
+
+test('API_KEYS parsing', () => {
+  assert.equal(loadApiKeys({}).length, 0);
+  assert.equal(loadApiKeys({ API_KEY: 'legacy', API_KEYS: 'a=send,voices:read; b=download' }).length, 3);
+  assert.throws(() => loadApiKeys({ API_KEYS: 'a=send,everything' }), /Invalid API_KEYS entry/);
+  assert.throws(() => loadApiKeys({ API_KEYS: 'a' }), /Invalid API_KEYS entry/);
+});
@@ -0,0 +1,137 @@
+import './support/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { BufferJSON } from '@whiskeysockets/baileys';
+import { SEND_KEY, TEST_ROOT } from './support/env.js';
+import { FakeTransport, textMessage, voiceNote } from './support/fakeTransport.js';
+import { startServer, get, waitFor, TestServer } from './support/server.js';
+import { initializeSessions } from '../src/sessions.js';
+import { initializeMessageStore } from '../src/messageStore.js';
+
+const ALICE = '33611111111@s.whatsapp.net';
+const BOB = '33622222222@s.whatsapp.net';
+const NOW = Math.floor(Date.now() / 1000);
+const STORE_FILE = path.join(TEST_ROOT, 'data', 'messages.jsonl');
+
+let fake: FakeTransport;
+let server: TestServer;
+
+async function messages(jid: string, query = '') {
+  return (await get(`${server.url}/chats/${jid}/messages${query}`)).json();
+}
+
+before(async () => {
+  initializeMessageStore();
+  fake = new FakeTransport();
+  await initializeSessions(async () => fake);
+  fake.open();
+  server = await startServer();
+
+  const history = [1, 2, 3, 4, 5].map(i => textMessage(`A${i}`, ALICE, `message ${i}`, i % 2 === 0));
+  history.forEach((msg, i) => (msg.messageTimestamp = NOW - 100 + i));
+  const voice = voiceNote('B1', BOB, false, NOW - 500);
+  voice.message!.audioMessage!.mediaKey = new Uint8Array([1, 2, 3]);
+
+  fake.syncHistory([...history, voice, textMessage('S1', 'status@broadcast', 'story')], [{ id: ALICE, name: 'Alice' }]);
+});
+
+after(async () => {
+  await server.close();
+});
+
+test('GET /chats lists synced chats, most recent first', async () => {
+  const { chats } = await (await get(`${server.url}/chats`)).json();
+  assert.deepEqual(chats.map((c: any) => [c.jid, c.name, c.messageCount]), [[ALICE, 'Alice', 5], [BOB, null, 1]]);
+  assert.equal(chats[0].lastMessageAt, new Date((NOW - 96) * 1000).toISOString());
+});
+
+test('GET /chats/:jid/messages pages backwards through a chat', async () => {
+  const first = await messages(ALICE, '?limit=2');
+  assert.deepEqual(first.messages.map((m: any) => m.id), ['A5', 'A4']);
+  assert.equal(first.messages[0].text, 'message 5');
+  assert.equal(first.messages[1].fromMe, true);
+  assert.equal(first.messages[0].sender, ALICE);
+
+  const second = await messages(ALICE, `?limit=2&before=${first.nextBefore}`);
+  assert.deepEqual(second.messages.map((m: any) => m.id), ['A3', 'A2']);
+
+  const last = await messages('+33 6 11 11 11 11', `?before=${second.nextBefore}`);
+  assert.deepEqual(last.messages.map((m: any) => m.id), ['A1']);
+  assert.equal(last.nextBefore, null);
+});
+
+test('live messages and receipts update the store', async () => {
+  fake.receive(textMessage('A6', ALICE, 'live'));
+  fake.emit('messages.update', [{ key: { id: 'A4', remoteJid: ALICE, fromMe: true }, update: { status: 4 } }]);
+
+  await waitFor(async () => (await messages(ALICE, '?limit=1')).messages[0].id === 'A6');
+  const a4 = (await messages(ALICE)).messages.find((m: any) => m.id === 'A4');
+  assert.equal(a4.status, 4);
+});
+
+test('the store file is compacted while running once most of its lines are stale', async () => {
+  const key = { id: 'A2', remoteJid: ALICE, fromMe: true };
+  for (let i = 0; i < 1200; i++) {
+    fake.emit('messages.update', [{ key, update: { status: 2 + (i % 2) } }]);
+  }
+
+  // Rewritten once past 1000 stale lines; the updates after that are appended again
+  const lines = fs.readFileSync(STORE_FILE, 'utf8').split('\n').filter(Boolean);
+  assert.ok(lines.length < 300, `${lines.length} lines`);
+  assert.equal((await messages(ALICE)).messages.find((m: any) => m.id === 'A2').status, 3);
+});
+
+test('voice notes keep their media key on disk', async () => {
+  const [voice] = (await messages(BOB)).messages;
+  assert.equal(voice.type, 'audioMessage');
+  assert.equal(voice.seconds, 3);
+
+  const line = fs.readFileSync(STORE_FILE, 'utf8').split('\n').find(l => l.includes('"B1"'))!;
+  const { message } = JSON.parse(line, BufferJSON.reviver);
+  assert.deepEqual([...message.message.audioMessage.mediaKey], [1, 2, 3]);
+});
+
+test('GET /groups lists joined groups with their participants', async () => {
+  fake.groups.push(
+    {
+      id: '120363000000000002@g.us',
+      subject: 'Famille',
+      owner: '11111111111111@lid',
+      ownerPn: ALICE,
+      creation: NOW - 3600,
+      announce: false,
+      participants: [
+        { id: '11111111111111@lid', phoneNumber: ALICE, admin: 'superadmin' },
+        { id: BOB, admin: null },
+      ],
+    },
+    { id: '120363000000000001@g.us', subject: 'Amis', owner: undefined, participants: [] }
+  );
+
+  const { total, groups } = await (await get(`${server.url}/groups`)).json();
+  assert.equal(total, 2);
+  assert.deepEqual(groups.map((g: any) => g.subject), ['Amis', 'Famille']);
+  assert.deepEqual(groups[1], {
+    id: '120363000000000002@g.us',
+    subject: 'Famille',
+    description: null,
+    owner: ALICE,
+    createdAt: new Date((NOW - 3600) * 1000).toISOString(),
+    announce: false,
+    participants: [
+      { jid: ALICE, lid: '11111111111111@lid', admin: 'superadmin' },
+      { jid: BOB, lid: null, admin: null },
+    ],
+  });
+
+  assert.equal((await get(`${server.url}/groups`, SEND_KEY)).status, 403);
+});
+
+test('unknown chats, bad queries and missing scopes are rejected', async () => {
+  assert.equal((await get(`${server.url}/chats/33699999999/messages`)).status, 404);
+  assert.equal((await get(`${server.url}/chats/${ALICE}/messages?limit=0`)).status, 400);
+  assert.equal((await get(`${server.url}/chats/${ALICE}/messages?before=nope`)).status, 400);
+  assert.equal((await get(`${server.url}/chats`, SEND_KEY)).status, 403);
+});
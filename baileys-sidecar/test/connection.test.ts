@@ -0,0 +1,105 @@
+import './support/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { SEND_KEY } from './support/env.js';
+import { FakeTransport, voiceNote } from './support/fakeTransport.js';
+import { startServer, get, postJson, waitFor, TestServer } from './support/server.js';
+import { initializeSessions, getSession, shutdownSessions } from '../src/sessions.js';
+
+// One fake per socket the supervisor creates
+const sockets: FakeTransport[] = [];
+let server: TestServer;
+
+const current = () => sockets.at(-1)!;
+
+async function connectionEvents() {
+  return (await (await get(`${server.url}/connection/events`)).json()).events as any[];
+}
+
+before(async () => {
+  await initializeSessions(async () => {
+    sockets.push(new FakeTransport());
+    return current();
+  });
+  server = await startServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+test('a dropped connection is retried on a new socket, the old one torn down', async () => {
+  const first = current();
+  first.open();
+  first.close();
+
+  assert.equal(first.ended, true);
+  assert.equal(first.listenerCount('connection.update'), 0);
+  assert.equal(first.listenerCount('messages.upsert'), 0);
+  assert.equal(getSession()!.getConnectionStatus(), 'connecting');
+
+  await waitFor(() => sockets.length === 2);
+  current().open();
+  assert.equal(getSession()!.getConnectionStatus(), 'connected');
+  assert.equal(current().listenerCount('messages.upsert'), 1);
+
+  // Late events of the old socket are ignored
+  first.media.set('LATE', Buffer.from('voice'));
+  first.receive(voiceNote('LATE', '33612345678@s.whatsapp.net'));
+  await new Promise(resolve => setTimeout(resolve, 20));
+  assert.equal(getSession()!.getVoiceStats().total, 0);
+});
+
+test('GET /connection/events lists the lifecycle, oldest first', async () => {
+  const events = await connectionEvents();
+  assert.deepEqual(events.map(e => e.type), ['open', 'close', 'reconnect_scheduled', 'open']);
+  assert.equal(events[1].statusCode, 428);
+  assert.deepEqual(
+    { attempt: events[2].attempt, delayMs: events[2].delayMs, status: events[2].status },
+    { attempt: 1, delayMs: 20, status: 'connecting' }
+  );
+});
+
+test('POST /session/logout unlinks the device and removes the creds', async () => {
+  const { authPath } = getSession()!;
+  fs.mkdirSync(authPath, { recursive: true });
+  fs.writeFileSync(path.join(authPath, 'creds.json'), '{}');
+
+  assert.equal((await postJson(`${server.url}/session/logout`, {}, SEND_KEY)).status, 403);
+
+  const res = await postJson(`${server.url}/session/logout`, {});
+  assert.equal(res.status, 200);
+  assert.deepEqual(await res.json(), { success: true, status: 'logged_out' });
+  assert.equal(current().loggedOut, true);
+  assert.equal(fs.existsSync(authPath), false);
+
+  // Logged out sessions do not reconnect
+  await new Promise(resolve => setTimeout(resolve, 50));
+  assert.equal(sockets.length, 2);
+  assert.equal((await postJson(`${server.url}/send/text`, { to: '33612345678', text: 'hi' })).status, 503);
+});
+
+test('POST /session/relink starts a new QR flow', async () => {
+  const res = await postJson(`${server.url}/session/relink`, {});
+  assert.equal(res.status, 200);
+  assert.equal(sockets.length, 3);
+
+  current().showQR('2@relink-qr');
+  assert.equal((await (await get(`${server.url}/qr`)).json()).qr, '2@relink-qr');
+  assert.deepEqual((await connectionEvents()).slice(-3).map(e => e.type), ['logout', 'relink', 'qr']);
+});
+
+test('shutting down writes pending creds and does not reconnect', async () => {
+  current().open();
+  await shutdownSessions();
+
+  assert.equal(current().credsFlushes, 1);
+  assert.equal(current().ended, true);
+  assert.equal(getSession()!.getConnectionStatus(), 'disconnected');
+
+  current().close();
+  await new Promise(resolve => setTimeout(resolve, 50));
+  assert.equal(sockets.length, 3);
+});
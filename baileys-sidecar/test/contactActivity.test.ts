@@ -0,0 +1,113 @@
+import './support/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { TEST_ROOT } from './support/env.js';
+import { FakeTransport, textMessage, voiceNote } from './support/fakeTransport.js';
+import { startServer, get, waitFor, TestServer } from './support/server.js';
+import { initializeSessions } from '../src/sessions.js';
+import { initializeContactActivity } from '../src/contactActivity.js';
+
+const ALICE = '33611111111@s.whatsapp.net';
+const BOB = '33622222222@s.whatsapp.net';
+const GROUP = '120363012345678901@g.us';
+const NOW = Math.floor(Date.now() / 1000);
+const DAY = 24 * 60 * 60;
+
+let fake: FakeTransport;
+let server: TestServer;
+
+async function getActivity(query = '') {
+  const res = await get(`${server.url}/contacts/activity${query}`);
+  assert.equal(res.status, 200);
+  return (await res.json()).contacts;
+}
+
+function at(message: ReturnType<typeof textMessage>, timestamp: number) {
+  return { ...message, messageTimestamp: timestamp };
+}
+
+before(async () => {
+  initializeContactActivity();
+  fake = new FakeTransport();
+  await initializeSessions(async () => fake);
+  fake.open();
+  server = await startServer();
+
+  fake.receive(
+    { ...at(textMessage('A1', ALICE, 'hi'), NOW - 40 * DAY), pushName: 'Alice' },
+    at(textMessage('A2', ALICE, 'hello', true), NOW - 40 * DAY),
+    voiceNote('A3', ALICE, false, NOW - 2 * DAY),
+    voiceNote('A4', ALICE, true, NOW - 20 * DAY),
+    at(textMessage('B1', '33622222222:3@s.whatsapp.net', 'yo', true), NOW - DAY),
+    textMessage('B2', BOB, 'yo!'),
+    textMessage('G1', GROUP, 'group chatter')
+  );
+  // Redelivered messages are counted once
+  fake.receive(textMessage('B2', BOB, 'yo!'));
+  await waitFor(async () => (await getActivity()).length === 2);
+});
+
+after(async () => {
+  await server.close();
+});
+
+test('activity is counted per contact, direction, type and rolling window', async () => {
+  const [alice, bob] = await getActivity();
+
+  assert.equal(alice.jid, ALICE);
+  assert.equal(alice.name, 'Alice');
+  assert.equal(alice.lastInboundAt, new Date((NOW - 2 * DAY) * 1000).toISOString());
+  assert.equal(alice.lastOutboundAt, new Date((NOW - 20 * DAY) * 1000).toISOString());
+  assert.deepEqual(
+    alice.windows.map((window: any) => [window.days, window.inbound.count, window.outbound.count]),
+    [
+      [7, 1, 0],
+      [30, 1, 1],
+      [90, 2, 2],
+    ]
+  );
+  assert.deepEqual(alice.windows[2].inbound.byType, { text: 1, voice: 1 });
+  assert.equal(alice.windows[2].inbound.voiceMinutes, 0.1);
+
+  // Device suffixes are dropped; groups are not contacts
+  assert.equal(bob.jid, BOB);
+  assert.deepEqual(bob.windows[0].inbound.byType, { text: 1 });
+  assert.equal(bob.windows[0].outbound.count, 1);
+
+  const stored = JSON.parse(fs.readFileSync(path.join(TEST_ROOT, 'data', 'contact-activity.json'), 'utf8'));
+  assert.equal(stored.length, 2);
+});
+
+test('notContactedDays keeps contacts we have not written to recently', async () => {
+  assert.deepEqual((await getActivity('?notContactedDays=7')).map((contact: any) => contact.jid), [ALICE]);
+  assert.deepEqual(await getActivity('?notContactedDays=30'), []);
+
+  const res = await get(`${server.url}/contacts/activity?notContactedDays=soon`);
+  assert.equal(res.status, 400);
+  assert.equal((await res.json()).code, 'INVALID_QUERY');
+});
+
+test('a contact writing from its LID and messaged on its phone number is one contact', async () => {
+  const CAROL = '33633333333@s.whatsapp.net';
+  const CAROL_LID = '98765432109876@lid';
+  const fromLid = (id: string, withNumber: boolean) => {
+    const message = { ...at(textMessage(id, CAROL_LID, 'hey'), NOW - 3 * DAY), pushName: 'Carol' };
+    message.key.remoteJidAlt = withNumber ? CAROL : undefined;
+    return message;
+  };
+
+  // Counted under the LID until WhatsApp gives the number, then merged into it
+  fake.receive(fromLid('C1', false));
+  await waitFor(async () => (await getActivity()).some((contact: any) => contact.jid === CAROL_LID));
+  fake.receive(fromLid('C2', true), textMessage('C3', CAROL, 'answer', true), fromLid('C4', false));
+  await waitFor(async () => (await getActivity()).some((contact: any) => contact.windows[0].inbound.count === 3));
+
+  const carol = (await getActivity()).filter((contact: any) => [CAROL, CAROL_LID].includes(contact.jid));
+  assert.equal(carol.length, 1);
+  assert.equal(carol[0].jid, CAROL);
+  assert.equal(carol[0].name, 'Carol');
+  assert.equal(carol[0].windows[0].outbound.count, 1);
+  assert.ok(!(await getActivity('?notContactedDays=7')).some((contact: any) => contact.jid === CAROL));
+});
@@ -0,0 +1,176 @@
+import './support/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { TEST_ROOT } from './support/env.js';
+import { FakeTransport, voiceNote } from './support/fakeTransport.js';
+import { startServer, get, postJson, waitFor, TestServer } from './support/server.js';
+import { getSession, initializeSessions } from '../src/sessions.js';
+import { initializeDownloadJobs } from '../src/voiceDownloader.js';
+import { initializeMessageStore } from '../src/messageStore.js';
+import { saveVoice } from '../src/voiceIndex.js';
+
+const ALICE = '33611111111@s.whatsapp.net';
+const BOB = '33622222222@s.whatsapp.net';
+const CAROL = '33633333333@s.whatsapp.net';
+const JOBS_FILE = path.join(TEST_ROOT, 'data', 'download-jobs.json');
+
+let fake: FakeTransport;
+let server: TestServer;
+
+async function job(id: string) {
+  return (await get(`${server.url}/download/jobs/${id}`)).json();
+}
+
+async function createJob(body: object) {
+  const res = await postJson(`${server.url}/download/jobs`, body);
+  assert.equal(res.status, 202);
+  return (await res.json()).job;
+}
+
+function persisted(id: string) {
+  return JSON.parse(fs.readFileSync(JOBS_FILE, 'utf8')).find((j: any) => j.id === id);
+}
+
+before(async () => {
+  initializeMessageStore();
+  initializeDownloadJobs();
+  fake = new FakeTransport();
+  await initializeSessions(async () => fake);
+  server = await startServer();
+
+  const now = Math.floor(Date.now() / 1000);
+  const history = [voiceNote('A1', ALICE, false, now - 60), voiceNote('A2', ALICE, false, now), voiceNote('B1', BOB)];
+  for (const msg of history) {
+    fake.media.set(msg.key.id!, Buffer.from(`voice ${msg.key.id}`));
+  }
+  fake.syncHistory(history);
+});
+
+after(async () => {
+  await server.close();
+});
+
+test('jobs created while disconnected are persisted and start once connected', async () => {
+  const created = await createJob({ chatId: '+33 6 22 22 22 22' });
+  assert.equal(created.status, 'queued');
+  assert.equal(created.chatId, BOB);
+  assert.equal(persisted(created.id).status, 'queued');
+
+  fake.open();
+  await waitFor(async () => (await job(created.id)).status === 'completed');
+
+  const done = persisted(created.id);
+  assert.equal(done.downloaded, 1);
+  assert.deepEqual(done.processedIds, ['B1']);
+  assert.equal((await job(created.id)).processedIds, undefined);
+});
+
+test('jobs queue behind the running one and can be paused, resumed and cancelled', async () => {
+  let release!: () => void;
+  fake.downloadGate = new Promise(resolve => (release = resolve));
+
+  const first = await createJob({ chatId: ALICE });
+  const second = await createJob({ chatId: BOB });
+  const third = await createJob({});
+  await waitFor(async () => (await job(first.id)).status === 'running');
+  assert.equal((await job(second.id)).status, 'queued');
+
+  // Cancelled while queued, and cannot be cancelled twice
+  assert.equal((await (await postJson(`${server.url}/download/jobs/${third.id}/cancel`, {})).json()).job.status, 'cancelled');
+  const again = await postJson(`${server.url}/download/jobs/${third.id}/cancel`, {});
+  assert.equal(again.status, 409);
+  assert.equal((await again.json()).code, 'INVALID_JOB_STATE');
+
+  // Paused mid-download: the message in flight finishes, then the next job runs
+  await postJson(`${server.url}/download/jobs/${first.id}/pause`, {});
+  release();
+  await waitFor(async () => (await job(second.id)).status === 'completed');
+  const paused = await job(first.id);
+  assert.equal(paused.status, 'paused');
+  assert.equal(paused.downloaded, 1);
+  assert.deepEqual(persisted(first.id).processedIds, ['A1']);
+
+  // A paused job still holds its chat
+  const duplicate = await postJson(`${server.url}/download/jobs`, { chatId: ALICE });
+  assert.equal(duplicate.status, 409);
+  assert.equal((await duplicate.json()).code, 'DOWNLOAD_IN_PROGRESS');
+
+  // Resuming skips what was already downloaded
+  const resumed = await postJson(`${server.url}/download/jobs/${first.id}/resume`, {});
+  assert.equal(resumed.status, 200);
+  await waitFor(async () => (await job(first.id)).status === 'completed');
+  const completed = await job(first.id);
+  assert.equal(completed.total, 2);
+  assert.equal(completed.downloaded, 2);
+  assert.deepEqual(fs.readdirSync(path.join(TEST_ROOT, 'voices', '33611111111')).sort(), ['received_A1.ogg', 'received_A2.ogg']);
+
+  const { jobs } = await (await get(`${server.url}/download/jobs`)).json();
+  assert.deepEqual(jobs.slice(-3).map((j: any) => j.status), ['completed', 'completed', 'cancelled']);
+});
+
+test('failed downloads are reported on the job', async () => {
+  fake.syncHistory([voiceNote('B2', BOB)]);
+  const created = await createJob({ chatId: BOB });
+  await waitFor(async () => (await job(created.id)).status === 'completed');
+
+  const failed = await job(created.id);
+  assert.equal(failed.skipped, 1);
+  assert.equal(failed.failed, 1);
+  assert.equal(failed.errors[0].messageId, 'B2');
+  assert.match(failed.errors[0].error, /No media scripted/);
+});
+
+test('unknown jobs are 404', async () => {
+  assert.equal((await get(`${server.url}/download/jobs/nope`)).status, 404);
+  assert.equal((await postJson(`${server.url}/download/jobs/nope/resume`, {})).status, 404);
+});
+
+test('a voice saved while its download was in flight counts as skipped', async () => {
+  const voice = voiceNote('C1', CAROL);
+  fake.media.set('C1', Buffer.from('voice C1'));
+  fake.syncHistory([voice]);
+
+  let release!: () => void;
+  fake.downloadGate = new Promise(resolve => (release = resolve));
+  const created = await createJob({ chatId: CAROL });
+  await waitFor(async () => (await job(created.id)).status === 'running');
+
+  // The auto-downloader gets there first
+  const session = getSession()!;
+  saveVoice(session.id, session.voicesPath, voice, Buffer.from('voice C1'));
+  release();
+  await waitFor(async () => (await job(created.id)).status === 'completed');
+
+  const done = await job(created.id);
+  assert.equal(done.downloaded, 0);
+  assert.equal(done.skipped, 1);
+});
+
+test('a running job writes the jobs file at checkpoints, not after every message', async () => {
+  const session = getSession()!;
+  const now = Math.floor(Date.now() / 1000);
+  const voices = Array.from({ length: 60 }, (_, i) => voiceNote(`D${i}`, CAROL, false, now - 60 + i));
+  fake.syncHistory(voices);
+  // Already saved: skipped without the pauses between downloads
+  voices.forEach(voice => saveVoice(session.id, session.voicesPath, voice, Buffer.from(`voice ${voice.key.id}`)));
+
+  const renameSync = fs.renameSync;
+  let writes = 0;
+  fs.renameSync = (from, to) => {
+    if (to === JOBS_FILE) {
+      writes++;
+    }
+    return renameSync(from, to);
+  };
+  try {
+    const created = await createJob({ chatId: CAROL, messagesLimit: 100 });
+    await waitFor(async () => (await job(created.id)).status === 'completed');
+    assert.equal(persisted(created.id).processedIds.length, 61);
+    assert.equal((await job(created.id)).skipped, 61);
+  } finally {
+    fs.renameSync = renameSync;
+  }
+  assert.ok(writes < 15, `${writes} writes`);
+});
@@ -0,0 +1,122 @@
+import './support/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { ADMIN_KEY, SEND_KEY, TEST_ROOT } from './support/env.js';
+import { FakeTransport, voiceNote } from './support/fakeTransport.js';
+import { startServer, postJson, waitFor, TestServer } from './support/server.js';
+import { initializeSessions } from '../src/sessions.js';
+import { initializeEventStream } from '../src/eventStream.js';
+import { initializeMessageStore } from '../src/messageStore.js';
+
+interface StreamedEvent {
+  event: string;
+  data: any;
+}
+
+let fake: FakeTransport;
+let server: TestServer;
+
+// Collects Server-Sent Events until closed
+async function openStream(url: string, apiKey: string) {
+  const controller = new AbortController();
+  const events: StreamedEvent[] = [];
+  const response = await fetch(url, { headers: { 'x-api-key': apiKey }, signal: controller.signal });
+
+  void (async () => {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) {
+          break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+        let separator;
+        while ((separator = buffer.indexOf('\n\n')) !== -1) {
+          const lines = buffer.slice(0, separator).split('\n');
+          buffer = buffer.slice(separator + 2);
+          const event = lines.find(l => l.startsWith('event: '))?.slice(7);
+          const data = lines.find(l => l.startsWith('data: '))?.slice(6);
+          if (event && data) {
+            events.push({ event, data: JSON.parse(data) });
+          }
+        }
+      }
+    } catch {
+      // aborted
+    }
+  })();
+
+  return {
+    response,
+    events,
+    of: (name: string) => events.filter(e => e.event === name).map(e => e.data),
+    close: () => controller.abort(),
+  };
+}
+
+before(async () => {
+  initializeEventStream();
+  initializeMessageStore();
+  fake = new FakeTransport();
+  await initializeSessions(async () => fake);
+  server = await startServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+test('the stream starts with the current status and QR code', async () => {
+  fake.showQR('first-qr');
+  const stream = await openStream(`${server.url}/events`, ADMIN_KEY);
+
+  assert.equal(stream.response.headers.get('content-type'), 'text/event-stream');
+  await waitFor(() => stream.of('qr').length === 1);
+  assert.equal(stream.of('status')[0].status, 'qr_pending');
+  assert.match(stream.of('qr')[0].image, /^data:image\/png;base64,/);
+
+  fake.showQR('second-qr');
+  await waitFor(() => stream.of('qr').length === 2);
+  assert.equal(stream.of('qr')[1].qr, 'second-qr');
+
+  fake.open();
+  await waitFor(() => stream.of('status').some(s => s.connection === 'open'));
+  assert.equal(stream.of('status').at(-1).status, 'connected');
+  stream.close();
+});
+
+test('QR codes are only streamed to admin keys', async () => {
+  fake.showQR('secret-qr');
+  const stream = await openStream(`${server.url}/events`, SEND_KEY);
+  fake.showQR('another-secret-qr');
+
+  await waitFor(() => stream.of('status').length === 2);
+  assert.equal(stream.of('qr').length, 0);
+  fake.open();
+  stream.close();
+});
+
+test('download progress ticks are streamed', async () => {
+  const stream = await openStream(`${server.url}/events`, ADMIN_KEY);
+  fake.media.set('H1', Buffer.from('voice'));
+  fake.syncHistory([voiceNote('H1', '33612345678@s.whatsapp.net')]);
+
+  await postJson(`${server.url}/download/voices`, { chatId: '33612345678' });
+
+  await waitFor(() => stream.of('download.progress').some(p => p.status === 'completed'));
+  assert.ok(stream.of('download.progress').some(p => p.status === 'running' && p.downloaded === 1));
+  stream.close();
+});
+
+test('reconnect attempts are streamed with their delay', async () => {
+  const stream = await openStream(`${server.url}/events`, ADMIN_KEY);
+  fake.close();
+
+  await waitFor(() => stream.of('reconnect').length === 1);
+  assert.deepEqual(stream.of('reconnect')[0], { sessionId: 'default', attempt: 1, delayMs: 20 });
+  stream.close();
+});
@@ -0,0 +1,177 @@
+import './support/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { ADMIN_KEY, TEST_ROOT } from './support/env.js';
+import { FakeTransport } from './support/fakeTransport.js';
+import { startServer, waitFor, TestServer } from './support/server.js';
+import { getSession, initializeSessions } from '../src/sessions.js';
+import { initializeMessageQueue } from '../src/messageQueue.js';
+import { initializeIdempotency, loadIdempotencyWindowMs } from '../src/idempotency.js';
+
+let fake: FakeTransport;
+let server: TestServer;
+
+async function sendText(key: string | null, body: Record<string, unknown>, prefix = '') {
+  return fetch(`${server.url}${prefix}/send/text`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': ADMIN_KEY,
+      ...(key !== null ? { 'Idempotency-Key': key } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+before(async () => {
+  fake = new FakeTransport();
+  await initializeSessions(async () => fake);
+  initializeMessageQueue();
+  initializeIdempotency();
+  fake.open();
+  server = await startServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+test('IDEMPOTENCY_WINDOW_HOURS is a positive number of hours', () => {
+  assert.equal(loadIdempotencyWindowMs({}), 24 * 60 * 60 * 1000);
+  assert.equal(loadIdempotencyWindowMs({ IDEMPOTENCY_WINDOW_HOURS: '0.5' }), 30 * 60 * 1000);
+  assert.throws(() => loadIdempotencyWindowMs({ IDEMPOTENCY_WINDOW_HOURS: 'a day' }), /IDEMPOTENCY_WINDOW_HOURS/);
+});
+
+test('a repeated key returns the first messageId without sending again', async () => {
+  const first = await sendText('order-1', { to: '33612345678', text: 'hello' });
+  assert.equal(first.status, 200);
+  const { messageId } = await first.json();
+
+  const retry = await sendText('order-1', { to: '33612345678', text: 'hello' }, '/sessions/default');
+  assert.equal(retry.status, 200);
+  assert.equal(retry.headers.get('idempotent-replayed'), 'true');
+  assert.equal((await retry.json()).messageId, messageId);
+  assert.equal(fake.sent.length, 1);
+
+  assert.equal((await sendText(null, { to: '33612345678', text: 'hello' })).status, 200);
+  assert.equal(fake.sent.length, 2);
+});
+
+test('a key reused for another payload is rejected', async () => {
+  assert.equal((await sendText('order-2', { to: '33612345678', text: 'hello' })).status, 200);
+
+  const reused = await sendText('order-2', { to: '33612345678', text: 'goodbye' });
+  assert.equal(reused.status, 422);
+  assert.equal((await reused.json()).code, 'IDEMPOTENCY_KEY_REUSED');
+
+  const empty = await sendText('', { to: '33612345678', text: 'hello' });
+  assert.equal(empty.status, 400);
+  assert.equal((await empty.json()).code, 'INVALID_REQUEST');
+});
+
+test('failed sends release their key', async () => {
+  fake.sendFailures.push(new Error('Connection Closed'));
+  assert.equal((await sendText('order-3', { to: '33612345678', text: 'hello' })).status, 502);
+
+  const before = fake.sent.length;
+  assert.equal((await sendText('order-3', { to: '33612345678', text: 'hello' })).status, 200);
+  assert.equal(fake.sent.length, before + 1);
+});
+
+test('keys survive a restart until the window ends', async () => {
+  const first = await (await sendText('order-4', { to: '33612345678', text: 'hello' })).json();
+  const stored = JSON.parse(fs.readFileSync(path.join(TEST_ROOT, 'data', 'idempotency-keys.json'), 'utf8'));
+  assert.ok(stored.some((response: { key: string }) => response.key === 'order-4'));
+
+  initializeIdempotency();
+  const sent = fake.sent.length;
+  const retry = await sendText('order-4', { to: '33612345678', text: 'hello' });
+  assert.equal((await retry.json()).messageId, first.messageId);
+  assert.equal(fake.sent.length, sent);
+
+  initializeIdempotency(1);
+  await new Promise(resolve => setTimeout(resolve, 5));
+  assert.equal((await sendText('order-4', { to: '33612345678', text: 'hello' })).status, 200);
+  assert.equal(fake.sent.length, sent + 1);
+  initializeIdempotency();
+});
+
+test('a response that fails its schema is not replayed', async () => {
+  // The send goes out, but the answer does not match SentResponse and is turned into a 500
+  const session = getSession()!;
+  const sendTextMessage = session.sendTextMessage;
+  session.sendTextMessage = async () => 42 as unknown as string;
+  try {
+    assert.equal((await sendText('order-5', { to: '33612345678', text: 'hello' })).status, 500);
+  } finally {
+    session.sendTextMessage = sendTextMessage;
+  }
+
+  const retry = await sendText('order-5', { to: '33612345678', text: 'hello' });
+  assert.equal(retry.status, 200);
+  assert.equal(retry.headers.get('idempotent-replayed'), null);
+});
+
+test('a retry while the first send is still going out is refused, even after the client gave up', async () => {
+  const session = getSession()!;
+  const sendTextMessage = session.sendTextMessage;
+  let release!: () => void;
+  const held = new Promise<void>(resolve => (release = resolve));
+  let calls = 0;
+  session.sendTextMessage = async (jid, text) => {
+    if (calls++ === 0) {
+      await held;
+    }
+    return sendTextMessage.call(session, jid, text);
+  };
+
+  try {
+    // The first attempt times out on the client side
+    const first = new AbortController();
+    const pending = fetch(`${server.url}/send/text`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-api-key': ADMIN_KEY, 'Idempotency-Key': 'order-6' },
+      body: JSON.stringify({ to: '33612345678', text: 'hello' }),
+      signal: first.signal,
+    }).catch(() => null);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    first.abort();
+    await pending;
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const retry = await sendText('order-6', { to: '33612345678', text: 'hello' });
+    assert.equal(retry.status, 409);
+    assert.equal((await retry.json()).code, 'IDEMPOTENCY_KEY_IN_USE');
+  } finally {
+    release();
+    session.sendTextMessage = sendTextMessage;
+  }
+
+  // The held send goes out once, and its response is what a later retry gets
+  const sent = fake.sent.length + 1;
+  await waitFor(async () => (await sendText('order-6', { to: '33612345678', text: 'hello' })).status === 200);
+  assert.equal(fake.sent.length, sent);
+});
+
+test('media sends accept an Idempotency-Key', async () => {
+  const png = Buffer.concat([Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex'), Buffer.alloc(64)]);
+  const sendImage = () => {
+    const form = new FormData();
+    form.append('to', '33612345678');
+    form.append('file', new Blob([png]), 'pixel.png');
+    return fetch(`${server.url}/send/image`, {
+      method: 'POST',
+      headers: { 'x-api-key': ADMIN_KEY, 'Idempotency-Key': 'photo-1' },
+      body: form,
+    });
+  };
+
+  const first = await (await sendImage()).json();
+  const sent = fake.sent.length;
+  const retry = await sendImage();
+  assert.equal(retry.headers.get('idempotent-replayed'), 'true');
+  assert.equal((await retry.json()).messageId, first.messageId);
+  assert.equal(fake.sent.length, sent);
+});
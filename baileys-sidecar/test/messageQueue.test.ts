@@ -0,0 +1,114 @@
+import './support/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { proto } from '@whiskeysockets/baileys';
+import { TEST_ROOT } from './support/env.js';
+import { FakeTransport } from './support/fakeTransport.js';
+import { startServer, get, postJson, waitFor, TestServer } from './support/server.js';
+import { initializeSessions } from '../src/sessions.js';
+import { initializeMessageQueue } from '../src/messageQueue.js';
+import { positiveInteger } from '../src/config.js';
+import { RETENTION_MS, writeRetainedRecords } from '../src/storage.js';
+
+const CONTACT = '33612345678@s.whatsapp.net';
+
+let fake: FakeTransport;
+let server: TestServer;
+
+async function getMessage(id: string) {
+  return (await get(`${server.url}/messages/${id}`)).json();
+}
+
+before(async () => {
+  fake = new FakeTransport();
+  await initializeSessions(async () => fake);
+  initializeMessageQueue();
+  server = await startServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+test('queued sends wait for the connection and persist to disk', async () => {
+  const res = await postJson(`${server.url}/send/text`, { to: '33612345678', text: 'hello', queue: true });
+  assert.equal(res.status, 202);
+  const { id, status } = await res.json();
+  assert.equal(status, 'queued');
+
+  assert.equal((await getMessage(id)).status, 'queued');
+  assert.equal(fake.sent.length, 0);
+
+  const stored = JSON.parse(fs.readFileSync(path.join(TEST_ROOT, 'data', 'outbound-messages.json'), 'utf8'));
+  assert.equal(stored[0].id, id);
+
+  fake.open();
+  await waitFor(async () => (await getMessage(id)).status === 'sent');
+
+  const message = await getMessage(id);
+  assert.equal(message.messageId, fake.sent[0].messageId);
+  assert.equal(fake.sent[0].jid, CONTACT);
+});
+
+test('receipts move a message to delivered then read', async () => {
+  const res = await postJson(`${server.url}/send/text`, { to: '33612345678', text: 'direct' });
+  const { id, messageId } = await res.json();
+  assert.equal((await getMessage(messageId)).id, id);
+
+  fake.receipt(messageId, CONTACT, proto.WebMessageInfo.Status.DELIVERY_ACK);
+  const delivered = await getMessage(id);
+  assert.equal(delivered.status, 'delivered');
+  assert.ok(delivered.deliveredAt);
+
+  fake.receipt(messageId, CONTACT, proto.WebMessageInfo.Status.PLAYED);
+  assert.equal((await getMessage(id)).status, 'read');
+});
+
+test('failed sends are retried with backoff, then marked failed', async () => {
+  fake.sendFailures.push(new Error('boom'));
+  const retried = await (await postJson(`${server.url}/send/text`, { to: '33612345678', text: 'retry me', queue: true })).json();
+  await waitFor(async () => (await getMessage(retried.id)).status === 'sent');
+  assert.equal((await getMessage(retried.id)).attempts, 2);
+
+  for (let i = 0; i < 5; i++) {
+    fake.sendFailures.push(new Error('still failing'));
+  }
+  const failed = await (await postJson(`${server.url}/send/text`, { to: '33612345678', text: 'give up', queue: true })).json();
+  await waitFor(async () => (await getMessage(failed.id)).status === 'failed');
+
+  const message = await getMessage(failed.id);
+  assert.equal(message.attempts, 5);
+  assert.equal(message.error, 'still failing');
+});
+
+test('queued audio must exist and unknown ids are 404', async () => {
+  const res = await postJson(`${server.url}/send/audio`, { to: '33612345678', audioPath: 'nope.ogg', queue: true });
+  assert.equal(res.status, 404);
+  assert.equal((await res.json()).code, 'AUDIO_NOT_FOUND');
+  assert.equal((await get(`${server.url}/messages/unknown`)).status, 404);
+});
+
+test('OUTBOUND_MAX_ATTEMPTS must be a positive integer', () => {
+  assert.equal(positiveInteger('OUTBOUND_MAX_ATTEMPTS', 5, {}), 5);
+  assert.equal(positiveInteger('OUTBOUND_MAX_ATTEMPTS', 5, { OUTBOUND_MAX_ATTEMPTS: '3' }), 3);
+  for (const value of ['abc', '0', '-2', '2.5']) {
+    assert.throws(() => positiveInteger('OUTBOUND_MAX_ATTEMPTS', 5, { OUTBOUND_MAX_ATTEMPTS: value }), /Invalid OUTBOUND_MAX_ATTEMPTS/);
+  }
+});
+
+test('records finished more than a week ago are dropped when saved', () => {
+  const file = path.join(TEST_ROOT, 'retention.json');
+  const old = new Date(Date.now() - RETENTION_MS - 60_000).toISOString();
+  const recent = new Date().toISOString();
+  const records = [
+    { id: 'queued', finishedAt: null },
+    { id: 'old', finishedAt: old },
+    { id: 'recent', finishedAt: recent },
+  ];
+
+  const kept = writeRetainedRecords(file, records, r => r.finishedAt);
+  assert.deepEqual(kept.map(r => r.id), ['queued', 'recent']);
+  assert.deepEqual(JSON.parse(fs.readFileSync(file, 'utf8')), kept);
+});
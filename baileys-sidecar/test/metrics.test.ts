@@ -0,0 +1,95 @@
+import './support/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { SEND_KEY } from './support/env.js';
+import { FakeTransport, voiceNote } from './support/fakeTransport.js';
+import { startServer, get, postJson, waitFor, TestServer } from './support/server.js';
+import { initializeSessions } from '../src/sessions.js';
+import { initializeMessageQueue } from '../src/messageQueue.js';
+import { initializeMessageStore } from '../src/messageStore.js';
+import { initializeDownloadJobs } from '../src/voiceDownloader.js';
+import { initializeMetrics } from '../src/metrics.js';
+
+let fake: FakeTransport;
+let server: TestServer;
+
+// Samples of the scrape, keyed by metric name and labels as printed
+async function scrape(): Promise<Map<string, number>> {
+  const res = await get(`${server.url}/metrics`);
+  assert.equal(res.status, 200);
+  const samples = new Map<string, number>();
+  for (const line of (await res.text()).split('\n')) {
+    const match = line.match(/^(\S+) (\S+)$/);
+    if (match) {
+      samples.set(match[1], Number(match[2]));
+    }
+  }
+  return samples;
+}
+
+before(async () => {
+  fake = new FakeTransport();
+  initializeMessageQueue();
+  initializeMessageStore();
+  initializeDownloadJobs();
+  initializeMetrics();
+  await initializeSessions(async () => fake);
+  server = await startServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+test('GET /metrics needs the metrics scope', async () => {
+  const res = await get(`${server.url}/metrics`, SEND_KEY);
+  assert.equal(res.status, 403);
+
+  const scraped = await get(`${server.url}/metrics`);
+  assert.equal(scraped.headers.get('content-type'), 'text/plain; version=0.0.4; charset=utf-8');
+});
+
+test('the connection status is a gauge per session and status', async () => {
+  let samples = await scrape();
+  assert.equal(samples.get('sidecar_connection_status{session="default",status="disconnected"}'), 1);
+  assert.equal(samples.get('sidecar_connection_status{session="default",status="connected"}'), 0);
+
+  fake.open();
+  samples = await scrape();
+  assert.equal(samples.get('sidecar_connection_status{session="default",status="connected"}'), 1);
+  assert.equal(samples.get('sidecar_connection_status{session="default",status="disconnected"}'), 0);
+});
+
+test('send attempts are counted by type and outcome, and successful ones timed', async () => {
+  await postJson(`${server.url}/send/text`, { to: '33612345678', text: 'one' });
+  await postJson(`${server.url}/send/text`, { to: '33612345678', text: 'two', queue: true });
+  fake.sendFailures.push(new Error('socket hang up'));
+  assert.equal((await postJson(`${server.url}/send/text`, { to: '33612345678', text: 'three' })).status, 502);
+  await waitFor(() => fake.sent.length === 2);
+
+  const samples = await scrape();
+  assert.equal(samples.get('sidecar_messages_sent_total{session="default",type="text",outcome="sent"}'), 2);
+  assert.equal(samples.get('sidecar_messages_sent_total{session="default",type="text",outcome="failed"}'), 1);
+  assert.equal(samples.get('sidecar_send_duration_seconds_count{session="default",type="text"}'), 2);
+  assert.equal(samples.get('sidecar_send_duration_seconds_bucket{le="+Inf",session="default",type="text"}'), 2);
+});
+
+test('auto-saved voice notes and download jobs are reported with the disk usage', async () => {
+  fake.media.set('V1', Buffer.from('voice note'));
+  fake.receive(voiceNote('V1', '33612345678@s.whatsapp.net'));
+  await postJson(`${server.url}/download/jobs`, { chatId: '33612345678' });
+
+  await waitFor(async () => (await scrape()).get('sidecar_voices_saved_total{session="default"}') === 1);
+  const samples = await scrape();
+  assert.equal(samples.get('sidecar_voices_saved_bytes_total{session="default"}'), 10);
+  assert.ok(samples.get('sidecar_voices_disk_bytes{session="default"}')! >= 10);
+
+  const jobs = Array.from(samples).filter(([name]) => name.startsWith('sidecar_download_jobs{session="default"'));
+  assert.equal(jobs.length, 6);
+  assert.equal(jobs.reduce((sum, [, value]) => sum + value, 0), 1);
+});
+
+test('reconnect attempts are counted per session', async () => {
+  fake.close();
+  await waitFor(async () => (await scrape()).get('sidecar_reconnect_attempts_total{session="default"}') === 1);
+});
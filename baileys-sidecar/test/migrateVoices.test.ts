@@ -0,0 +1,87 @@
+import './support/env.js';
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { TEST_ROOT } from './support/env.js';
+import { voiceNote } from './support/fakeTransport.js';
+import { getVoice, hashVoice, listVoices, relocateVoice, saveVoice } from '../src/voiceIndex.js';
+import { migrateVoices } from '../src/migrateVoices.js';
+
+const SESSION = 'default';
+const VOICES = path.join(TEST_ROOT, 'old-voices');
+const ALICE = '33611111111@s.whatsapp.net';
+
+function write(file: string, content: string) {
+  fs.mkdirSync(path.dirname(path.join(VOICES, file)), { recursive: true });
+  fs.writeFileSync(path.join(VOICES, file), content);
+}
+
+function tree(dir = VOICES): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory() ? tree(path.join(dir, entry.name)).map(file => `${entry.name}/${file}`) : [entry.name]
+  );
+}
+
+before(() => {
+  // Auto-download, and the bulk download of the same voice note
+  write('2024-01-15/33611111111/received_voice_1705312800.ogg', 'alpha');
+  write('33611111111_2024-01-16/33611111111_1705312800.ogg', 'alpha');
+  write('all_voices_2024-01-16/33622222222/33622222222_1705399200.ogg', 'beta');
+  // Same name on two days, different audio
+  write('2024-01-17/33633333333/sent_voice_1705500000.ogg', 'gamma');
+  write('2024-01-18/33633333333/sent_voice_1705500000.ogg', 'other gamma');
+  write('2024-01-14/33622222222/voice_1705200000.ogg', 'epsilon');
+  write('notes.ogg', 'unknown');
+
+  // Indexed with its message, saved under an older layout
+  const { record } = saveVoice(SESSION, VOICES, voiceNote('M1', ALICE, true), Buffer.from('delta'));
+  write('33611111111_2024-01-19/33611111111_1705600000.ogg', 'delta');
+  fs.rmSync(record.path);
+  relocateVoice(record, path.join(VOICES, '33611111111_2024-01-19/33611111111_1705600000.ogg'), hashVoice(Buffer.from('delta')));
+});
+
+test('a dry run reports without touching anything', () => {
+  const before = tree();
+  const report = migrateVoices(SESSION, VOICES, true);
+
+  assert.equal(report.scanned, 8);
+  assert.equal(report.moved, 5);
+  assert.equal(report.duplicatesRemoved, 1);
+  assert.equal(report.collisions.length, 1);
+  assert.deepEqual(tree(), before);
+});
+
+test('files move to the canonical layout and duplicates are dropped', () => {
+  const report = migrateVoices(SESSION, VOICES);
+
+  assert.equal(report.moved, 5);
+  assert.equal(report.duplicatesRemoved, 1);
+  assert.deepEqual(report.collisions, [{
+    source: path.join(VOICES, '2024-01-18/33633333333/sent_voice_1705500000.ogg'),
+    target: path.join(VOICES, '33633333333/sent_legacy-1705500000.ogg'),
+  }]);
+  assert.deepEqual(report.unrecognized, [path.join(VOICES, 'notes.ogg')]);
+
+  assert.deepEqual(tree().sort(), [
+    '2024-01-18/33633333333/sent_voice_1705500000.ogg',
+    '33611111111/received_legacy-1705312800.ogg',
+    '33611111111/sent_M1.ogg',
+    '33622222222/received_legacy-1705200000.ogg',
+    '33622222222/received_legacy-1705399200.ogg',
+    '33633333333/sent_legacy-1705500000.ogg',
+    'notes.ogg',
+  ]);
+
+  const moved = getVoice(SESSION, listVoices(SESSION, { contact: ALICE, direction: 'sent' }).voices[0].id)!;
+  assert.equal(moved.messageId, 'M1');
+  assert.equal(moved.path, path.join(VOICES, '33611111111/sent_M1.ogg'));
+  assert.equal(listVoices(SESSION, { contact: '33622222222', sort: 'timestamp' }).voices[0].path, path.join(VOICES, '33622222222/received_legacy-1705399200.ogg'));
+});
+
+test('running it again changes nothing', () => {
+  const report = migrateVoices(SESSION, VOICES);
+  assert.equal(report.alreadyCanonical, 5);
+  assert.equal(report.moved, 0);
+  assert.equal(report.collisions.length, 1);
+});
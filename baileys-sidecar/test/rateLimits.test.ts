@@ -0,0 +1,91 @@
+import './support/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { SEND_KEY } from './support/env.js';
+import { FakeTransport } from './support/fakeTransport.js';
+import { startServer, get, postJson, waitFor, TestServer } from './support/server.js';
+import { initializeSessions } from '../src/sessions.js';
+import { initializeMessageQueue } from '../src/messageQueue.js';
+import { initializeRateLimits, loadRateLimits } from '../src/rateLimits.js';
+
+let fake: FakeTransport;
+let server: TestServer;
+
+async function sendText(to: string, queue = false) {
+  return postJson(`${server.url}/send/text`, { to, text: 'hello', queue });
+}
+
+before(async () => {
+  fake = new FakeTransport();
+  await initializeSessions(async () => fake);
+  initializeMessageQueue();
+  fake.open();
+  server = await startServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+test('RATE_LIMIT_* are parsed as <messages>/<seconds> or off', () => {
+  assert.deepEqual(loadRateLimits({ RATE_LIMIT_GLOBAL: '20/60', RATE_LIMIT_PER_RECIPIENT: 'off' }), {
+    global: { capacity: 20, windowSeconds: 60 },
+    perRecipient: null,
+  });
+  assert.deepEqual(loadRateLimits({}).perRecipient, { capacity: 10, windowSeconds: 60 });
+  assert.throws(() => loadRateLimits({ RATE_LIMIT_GLOBAL: '20 per minute' }), /RATE_LIMIT_GLOBAL/);
+  assert.throws(() => loadRateLimits({ RATE_LIMIT_PER_RECIPIENT: '0/60' }), /RATE_LIMIT_PER_RECIPIENT/);
+});
+
+test('direct sends over a limit get 429 with Retry-After', async () => {
+  initializeRateLimits({ global: { capacity: 5, windowSeconds: 60 }, perRecipient: { capacity: 2, windowSeconds: 60 } });
+
+  for (let i = 0; i < 2; i++) {
+    assert.equal((await sendText('33611111111')).status, 200);
+  }
+  const limited = await sendText('+33 6 11 11 11 11');
+  assert.equal(limited.status, 429);
+  assert.equal(limited.headers.get('retry-after'), '30');
+  const body = await limited.json();
+  assert.equal(body.code, 'RATE_LIMITED');
+  assert.match(body.error, /33611111111@s\.whatsapp\.net/);
+
+  for (const to of ['33622222222', '33622222222', '33633333333']) {
+    assert.equal((await sendText(to)).status, 200);
+  }
+  const global = await sendText('33644444444');
+  assert.equal(global.status, 429);
+  assert.match((await global.json()).error, /this session/);
+  assert.equal(fake.sent.length, 5);
+});
+
+test('GET /rate-limits shows the buckets in use', async () => {
+  const state = await (await get(`${server.url}/rate-limits`)).json();
+  assert.equal(state.limits.perRecipient.capacity, 2);
+
+  const global = state.buckets.find((b: any) => b.recipient === null);
+  assert.equal(global.sessionId, 'default');
+  assert.ok(global.tokens < 1);
+  assert.ok(global.retryAfterMs > 0);
+  assert.ok(state.buckets.some((b: any) => b.recipient === '33611111111@s.whatsapp.net' && b.capacity === 2));
+  assert.ok(!state.buckets.some((b: any) => b.recipient === '33644444444@s.whatsapp.net'));
+
+  assert.equal((await get(`${server.url}/rate-limits`, SEND_KEY)).status, 403);
+});
+
+test('queued sends wait for a token instead of failing', async () => {
+  initializeRateLimits({ global: null, perRecipient: { capacity: 1, windowSeconds: 1 } });
+
+  const ids: string[] = [];
+  for (let i = 0; i < 3; i++) {
+    ids.push((await (await sendText('33655555555', true)).json()).id);
+  }
+
+  const statuses = async () => Promise.all(ids.map(async id => (await get(`${server.url}/messages/${id}`)).json()));
+  await waitFor(async () => (await statuses()).every(m => m.status === 'sent'), 4000);
+
+  const sent = await statuses();
+  assert.deepEqual(sent.map(m => m.attempts), [1, 1, 1]);
+  const times = sent.map(m => new Date(m.sentAt).getTime());
+  assert.ok(times[2] - times[0] >= 1900, `sent at ${times.join(', ')}`);
+});
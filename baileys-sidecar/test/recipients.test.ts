@@ -0,0 +1,110 @@
+import './support/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeTransport } from './support/fakeTransport.js';
+import { startServer, postJson, TestServer } from './support/server.js';
+import { getSession, initializeSessions } from '../src/sessions.js';
+import { initializeMessageQueue } from '../src/messageQueue.js';
+
+let fake: FakeTransport;
+let server: TestServer;
+
+async function check(numbers: unknown) {
+  return postJson(`${server.url}/contacts/check`, { numbers });
+}
+
+before(async () => {
+  fake = new FakeTransport();
+  fake.unregistered.add('33699999999');
+  fake.canonicalJids.set('5511912345678', '551112345678@s.whatsapp.net');
+  await initializeSessions(async () => fake);
+  initializeMessageQueue();
+  server = await startServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+test('POST /contacts/check needs a connection', async () => {
+  const res = await check(['33612345678']);
+  assert.equal(res.status, 503);
+  assert.equal((await res.json()).code, 'NOT_CONNECTED');
+  fake.open();
+});
+
+test('POST /contacts/check returns the canonical JID of each number', async () => {
+  const res = await check(['+33 6 12 34 56 78', '33699999999', '5511912345678']);
+  assert.equal(res.status, 200);
+  assert.deepEqual((await res.json()).results, [
+    { input: '+33 6 12 34 56 78', jid: '33612345678@s.whatsapp.net', exists: true },
+    { input: '33699999999', jid: null, exists: false },
+    { input: '5511912345678', jid: '551112345678@s.whatsapp.net', exists: true },
+  ]);
+  // One batch query, then the two numbers without an exact match one by one
+  assert.deepEqual(fake.lookups.map(jids => jids.length), [3, 1, 1]);
+
+  await check(['33612345678', '33699999999']);
+  assert.equal(fake.lookups.length, 3);
+});
+
+test('POST /contacts/check rejects malformed batches', async () => {
+  assert.equal((await check('33612345678')).status, 400);
+  assert.equal((await check([])).status, 400);
+  assert.equal((await check(Array(51).fill('33612345678'))).status, 400);
+
+  const group = await check(['120363000000000000@g.us']);
+  assert.equal(group.status, 400);
+  assert.equal((await group.json()).code, 'INVALID_JID');
+});
+
+test('sends to numbers that are not on WhatsApp are refused', async () => {
+  for (const queue of [false, true]) {
+    const res = await postJson(`${server.url}/send/text`, { to: '+33 6 99 99 99 99', text: 'hello?', queue });
+    assert.equal(res.status, 422);
+    assert.equal((await res.json()).code, 'RECIPIENT_NOT_ON_WHATSAPP');
+  }
+  assert.equal(fake.sent.length, 0);
+
+  const invalid = await postJson(`${server.url}/send/text`, { to: 'nobody', text: 'hello?' });
+  assert.equal(invalid.status, 400);
+  assert.equal((await invalid.json()).code, 'INVALID_RECIPIENT');
+});
+
+test('sends go to the canonical JID, and groups and LIDs are addressed as given', async () => {
+  const recipients = ['5511912345678', '120363000000000000@g.us', '12345678901234@lid', '33612345678:12@s.whatsapp.net'];
+  for (const to of recipients) {
+    assert.equal((await postJson(`${server.url}/send/text`, { to, text: 'hi' })).status, 200);
+  }
+  assert.deepEqual(fake.sent.map(m => m.jid), [
+    '551112345678@s.whatsapp.net',
+    '120363000000000000@g.us',
+    '12345678901234@lid',
+    '33612345678@s.whatsapp.net',
+  ]);
+});
+
+test('download jobs and chat routes share the JID normalization', async () => {
+  const job = await (await postJson(`${server.url}/download/jobs`, { chatId: '+33 6 12 34 56 78', messagesLimit: 1 })).json();
+  assert.equal(job.job.chatId, '33612345678@s.whatsapp.net');
+
+  const res = await postJson(`${server.url}/download/voices`, { chatId: '@s.whatsapp.net' });
+  assert.equal(res.status, 400);
+  assert.equal((await res.json()).code, 'INVALID_JID');
+});
+
+test('a direct send resolves its recipient once', async () => {
+  const session = getSession()!;
+  const resolveRecipient = session.resolveRecipient;
+  let calls = 0;
+  session.resolveRecipient = (to: string) => {
+    calls++;
+    return resolveRecipient.call(session, to);
+  };
+  try {
+    assert.equal((await postJson(`${server.url}/send/text`, { to: '33687654321', text: 'once' })).status, 200);
+    assert.equal(calls, 1);
+  } finally {
+    session.resolveRecipient = resolveRecipient;
+  }
+});
@@ -0,0 +1,369 @@
+import './support/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DisconnectReason } from '@whiskeysockets/baileys';
+import { ADMIN_KEY, TEST_ROOT } from './support/env.js';
+import { FFMPEG_SKIP, writeWav } from './support/audio.js';
+import { FakeTransport, textMessage, voiceNote } from './support/fakeTransport.js';
+import { startServer, get, postJson, waitFor, TestServer } from './support/server.js';
+import { initializeSessions, getSession } from '../src/sessions.js';
+import { initializeMessageStore } from '../src/messageStore.js';
+import { VoiceNote } from '../src/transport.js';
+
+const CONTACT = '33612345678@s.whatsapp.net';
+
+let fake: FakeTransport;
+let server: TestServer;
+
+before(async () => {
+  initializeMessageStore();
+  fake = new FakeTransport();
+  await initializeSessions(async () => fake);
+  server = await startServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+test('health check responds without a connection', async () => {
+  const res = await get(`${server.url}/health`, null);
+  assert.equal(res.status, 200);
+  assert.deepEqual(await res.json(), { status: 'ok' });
+
+  const live = await get(`${server.url}/health/live`, null);
+  assert.equal(live.status, 200);
+  assert.equal((await live.json()).status, 'ok');
+});
+
+test('readiness is 503 until WhatsApp is connected', async () => {
+  const res = await get(`${server.url}/health/ready`, null);
+  assert.equal(res.status, 503);
+  assert.deepEqual(await res.json(), { ready: false });
+
+  // The report names sessions and paths: it needs a key
+  assert.equal((await get(`${server.url}/health/ready/details`, null)).status, 401);
+  const details = await get(`${server.url}/health/ready/details`);
+  assert.equal(details.status, 503);
+  const body = await details.json();
+  assert.equal(body.status, 'not_ready');
+  assert.equal(body.sessions[0].status, 'disconnected');
+  assert.equal(body.sessions[0].lastConnectedAt, null);
+  assert.equal(body.sessions[0].authWritable, true);
+  assert.deepEqual(body.sessions[0].problems, ['WhatsApp is disconnected']);
+
+  assert.equal((await get(`${server.url}/health/ready?session=unknown`, null)).status, 404);
+});
+
+test('GET /openapi.json describes the routes from their schemas', async () => {
+  assert.equal((await get(`${server.url}/openapi.json`, null)).status, 401);
+  const res = await get(`${server.url}/openapi.json`);
+  assert.equal(res.status, 200);
+  const doc = await res.json();
+  assert.equal(doc.openapi, '3.1.0');
+
+  const sendText = doc.paths['/send/text'].post;
+  assert.deepEqual(sendText.requestBody.content['application/json'].schema.required, ['to', 'text']);
+  assert.deepEqual(Object.keys(sendText.responses).sort(), ['200', '202', '400', '401', '403', '409', '422', '429', '500', '502', '503']);
+  assert.ok(sendText.parameters.some((p: any) => p.name === 'Idempotency-Key' && p.in === 'header'));
+  assert.deepEqual(sendText.responses[503].content['application/json'].schema.allOf[1].properties.code.enum, ['NOT_CONNECTED']);
+
+  // Session routes are listed under both paths, multipart uploads as binary fields
+  const sendAudio = doc.paths['/sessions/{sessionId}/send/audio'].post;
+  assert.equal(sendAudio.parameters[0].name, 'sessionId');
+  assert.equal(sendAudio.requestBody.content['multipart/form-data'].schema.properties.audio.format, 'binary');
+  assert.ok(sendAudio.responses[404].description.includes('SESSION_NOT_FOUND'));
+
+  assert.deepEqual(doc.paths['/download/jobs/{id}'].get.parameters.map((p: any) => p.name), ['id']);
+  assert.equal(doc.paths['/health/live'].get.security.length, 0);
+  assert.ok(doc.components.schemas.DownloadJob);
+  assert.ok(doc.components.schemas.Error.properties.code.enum.includes('DOWNLOAD_IN_PROGRESS'));
+});
+
+test('unknown paths answer the JSON error shape', async () => {
+  const res = await get(`${server.url}/no/such/route`);
+  assert.equal(res.status, 404);
+  assert.deepEqual(await res.json(), { success: false, code: 'NOT_FOUND', error: 'No route for GET /no/such/route' });
+  assert.equal((await postJson(`${server.url}/health`, {})).status, 404);
+});
+
+test('QR code is served while pairing', async () => {
+  fake.showQR('2@fake-qr-payload');
+
+  const status = await (await get(`${server.url}/status`)).json();
+  assert.equal(status.status, 'qr_pending');
+
+  const qr = await (await get(`${server.url}/qr`)).json();
+  assert.equal(qr.qr, '2@fake-qr-payload');
+
+  const image = await get(`${server.url}/qr/image`);
+  assert.equal(image.status, 200);
+  assert.equal(image.headers.get('content-type'), 'image/png');
+});
+
+test('sending is refused until the connection opens', async () => {
+  const res = await postJson(`${server.url}/send/text`, { to: '+33 6 12 34 56 78', text: 'hello' });
+  assert.equal(res.status, 503);
+  assert.equal((await res.json()).code, 'NOT_CONNECTED');
+  assert.equal(fake.sent.length, 0);
+});
+
+test('opening the connection clears the QR code', async () => {
+  fake.open();
+
+  assert.equal(getSession()!.getConnectionStatus(), 'connected');
+  assert.equal((await get(`${server.url}/qr`)).status, 404);
+
+  assert.deepEqual(await (await get(`${server.url}/health/ready?session=default`, null)).json(), { ready: true });
+  const ready = await get(`${server.url}/health/ready/details?session=default`);
+  assert.equal(ready.status, 200);
+  const [session] = (await ready.json()).sessions;
+  assert.equal(session.ready, true);
+  assert.equal(session.secondsSinceConnected, 0);
+  assert.equal(session.reconnectAttempts, 0);
+  assert.ok(session.voicesFreeBytes > 0);
+});
+
+test('POST /send/text delivers to the formatted JID', async () => {
+  const res = await postJson(`${server.url}/send/text`, { to: '+33 6 12 34 56 78', text: 'hello' });
+  const body = await res.json();
+
+  assert.equal(res.status, 200);
+  assert.equal(body.success, true);
+
+  const sent = fake.sent.at(-1)!;
+  assert.equal(sent.messageId, body.messageId);
+  assert.equal(sent.jid, CONTACT);
+  assert.deepEqual(sent.content, { text: 'hello' });
+});
+
+test('POST /send/text validates its body', async () => {
+  const res = await postJson(`${server.url}/send/text`, { to: '+33612345678' });
+  assert.equal(res.status, 400);
+  const body = await res.json();
+  assert.equal(body.code, 'INVALID_REQUEST');
+  assert.deepEqual(body.details.map((d: any) => d.path), ['body.text']);
+
+  const malformed = await fetch(`${server.url}/send/text`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-api-key': ADMIN_KEY },
+    body: '{"to":',
+  });
+  assert.equal(malformed.status, 400);
+  assert.equal((await malformed.json()).code, 'INVALID_REQUEST');
+});
+
+test('POST /send/audio transcodes the file to an Opus voice note', { skip: FFMPEG_SKIP }, async () => {
+  const audioPath = path.join(TEST_ROOT, 'note.wav');
+  writeWav(audioPath, 2);
+
+  const res = await postJson(`${server.url}/send/audio`, { to: '33612345678', audioPath });
+  assert.equal(res.status, 200);
+
+  const sent = fake.sent.at(-1)!;
+  const note = sent.content as VoiceNote;
+  assert.equal(sent.jid, CONTACT);
+  assert.equal(note.audio.subarray(0, 4).toString(), 'OggS');
+  assert.equal(note.seconds, 2);
+  assert.equal(note.waveform.length, 64);
+  assert.equal(Math.max(...note.waveform), 100);
+});
+
+test('POST /send/audio rejects a malformed file with 422', { skip: FFMPEG_SKIP }, async () => {
+  const audioPath = path.join(TEST_ROOT, 'broken.ogg');
+  fs.writeFileSync(audioPath, Buffer.from('OggS fake audio'));
+  const sentBefore = fake.sent.length;
+
+  const res = await postJson(`${server.url}/send/audio`, { to: '33612345678', audioPath });
+  assert.equal(res.status, 422);
+  assert.equal((await res.json()).code, 'INVALID_AUDIO');
+  assert.equal(fake.sent.length, sentBefore);
+});
+
+test('POST /send/audio rejects a missing file', async () => {
+  const res = await postJson(`${server.url}/send/audio`, { to: '33612345678', audioPath: path.join(TEST_ROOT, 'nope.ogg') });
+  assert.equal(res.status, 404);
+  assert.equal((await res.json()).code, 'AUDIO_NOT_FOUND');
+});
+
+const UPLOADS_PATH = path.join(TEST_ROOT, 'data', 'uploads');
+
+function uploads(): string[] {
+  return fs.existsSync(UPLOADS_PATH) ? fs.readdirSync(UPLOADS_PATH) : [];
+}
+
+test('POST /send/audio only reads paths under AUDIO_ROOT', async () => {
+  const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'outside-'));
+  fs.writeFileSync(path.join(outside, 'secret.ogg'), 'secret');
+  fs.symlinkSync(path.join(outside, 'secret.ogg'), path.join(TEST_ROOT, 'link.ogg'));
+
+  for (const audioPath of ['../../etc/passwd', '/etc/passwd', path.join(outside, 'secret.ogg'), 'link.ogg']) {
+    const res = await postJson(`${server.url}/send/audio`, { to: '33612345678', audioPath });
+    assert.equal(res.status, 403, audioPath);
+    assert.equal((await res.json()).code, 'PATH_NOT_ALLOWED');
+  }
+});
+
+test('POST /send/audio rejects invalid base64', async () => {
+  const res = await postJson(`${server.url}/send/audio`, { to: '33612345678', audio: 'not base64!' });
+  assert.equal(res.status, 400);
+  assert.equal((await res.json()).code, 'INVALID_BASE64');
+  assert.deepEqual(uploads(), []);
+});
+
+test('POST /send/audio rejects uploads over MAX_AUDIO_BYTES', async () => {
+  const form = new FormData();
+  form.append('to', '33612345678');
+  form.append('audio', new Blob([Buffer.alloc(1024 * 1024 + 1)]), 'big.wav');
+
+  const res = await fetch(`${server.url}/send/audio`, { method: 'POST', headers: { 'x-api-key': ADMIN_KEY }, body: form });
+  assert.equal(res.status, 413);
+  assert.equal((await res.json()).code, 'AUDIO_TOO_LARGE');
+  await waitFor(() => uploads().length === 0);
+});
+
+test('POST /send/audio accepts a base64 audio field and removes the upload', { skip: FFMPEG_SKIP }, async () => {
+  const wavPath = path.join(TEST_ROOT, 'base64.wav');
+  writeWav(wavPath, 1);
+
+  const res = await postJson(`${server.url}/send/audio`, { to: '33612345678', audio: fs.readFileSync(wavPath).toString('base64') });
+  assert.equal(res.status, 200);
+  assert.equal((fake.sent.at(-1)!.content as VoiceNote).seconds, 1);
+  await waitFor(() => uploads().length === 0);
+});
+
+test('POST /send/audio accepts a multipart upload and removes it', { skip: FFMPEG_SKIP }, async () => {
+  const wavPath = path.join(TEST_ROOT, 'upload.wav');
+  writeWav(wavPath, 1);
+
+  const form = new FormData();
+  form.append('to', '33612345678');
+  form.append('audio', new Blob([fs.readFileSync(wavPath)]), 'upload.wav');
+
+  const res = await fetch(`${server.url}/send/audio`, { method: 'POST', headers: { 'x-api-key': ADMIN_KEY }, body: form });
+  assert.equal(res.status, 200);
+  assert.equal(fake.sent.at(-1)!.jid, CONTACT);
+  await waitFor(() => uploads().length === 0);
+});
+
+const PNG = Buffer.concat([Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex'), Buffer.alloc(64)]);
+const PDF = Buffer.from('%PDF-1.4\n%fake document\n%%EOF\n');
+
+test('POST /send/image sends a sniffed image with its caption', async () => {
+  const res = await postJson(`${server.url}/send/image`, { to: '33612345678', file: PNG.toString('base64'), caption: 'Regarde' });
+  assert.equal(res.status, 200);
+
+  const { jid, content } = fake.sent.at(-1)!;
+  assert.equal(jid, CONTACT);
+  assert.ok('image' in content);
+  assert.equal(content.mimetype, 'image/png');
+  assert.equal(content.caption, 'Regarde');
+  await waitFor(() => uploads().length === 0);
+});
+
+test('POST /send/image rejects files that are not images', async () => {
+  const res = await postJson(`${server.url}/send/image`, { to: '33612345678', file: PDF.toString('base64'), mimetype: 'image/png' });
+  assert.equal(res.status, 415);
+  assert.equal((await res.json()).code, 'UNSUPPORTED_MEDIA');
+  await waitFor(() => uploads().length === 0);
+});
+
+test('POST /send/image answers 502 when its upload is gone before the send', async () => {
+  // The upload disappears while the recipient is looked up, before the image goes out
+  const onWhatsApp = fake.onWhatsApp;
+  fake.onWhatsApp = async (...jids) => {
+    uploads().forEach(file => fs.rmSync(path.join(UPLOADS_PATH, file)));
+    return onWhatsApp.apply(fake, jids);
+  };
+  try {
+    const res = await postJson(`${server.url}/send/image`, { to: '33698765432', file: PNG.toString('base64') });
+    assert.equal(res.status, 502);
+    assert.equal((await res.json()).code, 'SEND_FAILED');
+  } finally {
+    fake.onWhatsApp = onWhatsApp;
+  }
+});
+
+test('POST /send/document keeps the uploaded file name', async () => {
+  const form = new FormData();
+  form.append('to', '33612345678');
+  form.append('caption', 'Ta facture');
+  form.append('file', new Blob([PDF]), 'facture.pdf');
+
+  const res = await fetch(`${server.url}/send/document`, { method: 'POST', headers: { 'x-api-key': ADMIN_KEY }, body: form });
+  assert.equal(res.status, 200);
+
+  const { content } = fake.sent.at(-1)!;
+  assert.ok('document' in content);
+  assert.equal(content.mimetype, 'application/pdf');
+  assert.equal(content.fileName, 'facture.pdf');
+  assert.equal(content.caption, 'Ta facture');
+});
+
+test('inbound voice notes are auto-saved and counted', async () => {
+  fake.media.set('VOICE1', Buffer.from('voice bytes'));
+  fake.receive(textMessage('TEXT1', CONTACT, 'hi there'), voiceNote('VOICE1', CONTACT));
+
+  await waitFor(async () => (await (await get(`${server.url}/voices/stats`)).json()).total === 1);
+
+  const list = await (await get(`${server.url}/voices/list`)).json();
+  assert.equal(list.total, 1);
+  assert.equal(list.voices[0].contact, CONTACT);
+  assert.equal(list.voices[0].messageId, 'VOICE1');
+  assert.equal(list.voices[0].path, path.join(TEST_ROOT, 'voices', '33612345678', 'received_VOICE1.ogg'));
+  assert.equal(fs.readFileSync(list.voices[0].path, 'utf8'), 'voice bytes');
+});
+
+test('bulk download saves voice notes from history next to auto-saved ones', async () => {
+  const hourAgo = Math.floor(Date.now() / 1000) - 3600;
+  fake.media.set('HIST1', Buffer.from('history voice'));
+  fake.syncHistory([voiceNote('HIST1', CONTACT, false, hourAgo), textMessage('HIST2', CONTACT, 'not a voice')]);
+
+  const res = await postJson(`${server.url}/download/voices`, { chatId: '+33612345678' });
+  assert.equal(res.status, 200);
+
+  await waitFor(async () => (await (await get(`${server.url}/download/progress`)).json()).status === 'completed');
+
+  // VOICE1 was auto-saved when it arrived
+  const progress = await (await get(`${server.url}/download/progress`)).json();
+  assert.equal(progress.total, 2);
+  assert.equal(progress.downloaded, 1);
+  assert.equal(progress.skipped, 1);
+  assert.equal(progress.currentChat, CONTACT);
+
+  const chatFolder = path.join(TEST_ROOT, 'voices', '33612345678');
+  assert.deepEqual(fs.readdirSync(chatFolder).sort(), ['received_HIST1.ogg', 'received_VOICE1.ogg']);
+  assert.equal((await (await get(`${server.url}/voices/stats`)).json()).total, 2);
+});
+
+test('bulk download across all chats and stop request', async () => {
+  // Only the latest message of each chat
+  fake.syncHistory([voiceNote('LATEST1', CONTACT, false, Math.floor(Date.now() / 1000) + 60)]);
+  fake.media.set('LATEST1', Buffer.from('latest voice'));
+  const res = await postJson(`${server.url}/download/voices/all`, { messagesLimit: 1 });
+  assert.equal(res.status, 200);
+
+  await waitFor(async () => (await (await get(`${server.url}/download/progress`)).json()).status === 'completed');
+  const progress = await (await get(`${server.url}/download/progress`)).json();
+  assert.equal(progress.totalChats, 1);
+  assert.equal(progress.downloaded, 1);
+
+  const stop = await postJson(`${server.url}/download/stop`, {});
+  assert.equal((await stop.json()).success, true);
+});
+
+test('a logout by WhatsApp stops the session and removes its stale creds', async () => {
+  const { authPath } = getSession()!;
+  fs.mkdirSync(authPath, { recursive: true });
+  fs.writeFileSync(path.join(authPath, 'creds.json'), '{}');
+
+  fake.close(DisconnectReason.loggedOut);
+
+  assert.equal(getSession()!.getConnectionStatus(), 'logged_out');
+  assert.equal(fs.existsSync(authPath), false);
+  const res = await postJson(`${server.url}/send/text`, { to: '33612345678', text: 'hello' });
+  assert.equal(res.status, 503);
+});
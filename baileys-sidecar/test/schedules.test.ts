@@ -0,0 +1,136 @@
+import './support/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { TEST_ROOT } from './support/env.js';
+import { FakeTransport } from './support/fakeTransport.js';
+import { FFMPEG_SKIP, writeWav } from './support/audio.js';
+import { startServer, get, postJson, waitFor, TestServer } from './support/server.js';
+import { initializeSessions } from '../src/sessions.js';
+import { initializeMessageQueue } from '../src/messageQueue.js';
+import { initializeScheduler } from '../src/scheduler.js';
+
+let fake: FakeTransport;
+let server: TestServer;
+
+async function getSchedule(id: string) {
+  return (await get(`${server.url}/schedules/${id}`)).json();
+}
+
+async function schedule(body: Record<string, unknown>) {
+  return postJson(`${server.url}/schedule`, { to: '33612345678', ...body });
+}
+
+before(async () => {
+  fake = new FakeTransport();
+  await initializeSessions(async () => fake);
+  initializeMessageQueue();
+  initializeScheduler();
+  server = await startServer();
+  fake.open();
+});
+
+after(async () => {
+  await server.close();
+});
+
+test('a one-shot schedule sends once through the outbound queue', async () => {
+  const res = await schedule({ text: 'rappel', sendAt: new Date(Date.now() + 200).toISOString() });
+  assert.equal(res.status, 201);
+  const { schedule: created } = await res.json();
+  assert.equal(created.status, 'active');
+  assert.equal(created.nextRunAt, created.sendAt);
+
+  const stored = JSON.parse(fs.readFileSync(path.join(TEST_ROOT, 'data', 'schedules.json'), 'utf8'));
+  assert.equal(stored[0].id, created.id);
+
+  await waitFor(async () => (await getSchedule(created.id)).firings[0]?.status === 'sent');
+  const fired = await getSchedule(created.id);
+  assert.equal(fired.status, 'completed');
+  assert.equal(fired.nextRunAt, null);
+  assert.equal(fired.firings[0].messageId, fake.sent.at(-1)!.messageId);
+
+  const message = await (await get(`${server.url}/messages/${fired.firings[0].outboundId}`)).json();
+  assert.equal(message.status, 'sent');
+});
+
+test('recurring schedules fire on their cron, and can be paused, resumed and cancelled', async () => {
+  const { schedule: created } = await (await schedule({ text: 'tick', cron: '* * * * * *' })).json();
+  await waitFor(async () => (await getSchedule(created.id)).firings.length >= 2, 3500);
+
+  const paused = await (await postJson(`${server.url}/schedules/${created.id}/pause`, {})).json();
+  assert.equal(paused.schedule.status, 'paused');
+  const firings = (await getSchedule(created.id)).firings.length;
+  await new Promise(resolve => setTimeout(resolve, 1200));
+  assert.equal((await getSchedule(created.id)).firings.length, firings);
+
+  const resumed = await (await postJson(`${server.url}/schedules/${created.id}/resume`, {})).json();
+  assert.equal(resumed.schedule.status, 'active');
+  assert.ok(new Date(resumed.schedule.nextRunAt).getTime() > Date.now() - 1000);
+
+  const cancelled = await (await postJson(`${server.url}/schedules/${created.id}/cancel`, {})).json();
+  assert.equal(cancelled.schedule.status, 'cancelled');
+  assert.equal(cancelled.schedule.nextRunAt, null);
+
+  const again = await postJson(`${server.url}/schedules/${created.id}/cancel`, {});
+  assert.equal(again.status, 409);
+  assert.equal((await again.json()).code, 'INVALID_SCHEDULE_STATE');
+
+  const { schedules } = await (await get(`${server.url}/schedules`)).json();
+  assert.ok(schedules.some((s: any) => s.id === created.id && s.status === 'cancelled'));
+});
+
+test('sendAt without an offset and cron run in the schedule timezone', async () => {
+  const local = await (await schedule({ text: 'bonjour', sendAt: '2030-01-15T09:00', timezone: 'Europe/Paris' })).json();
+  assert.equal(local.schedule.sendAt, '2030-01-15T08:00:00.000Z');
+
+  const daily = await (await schedule({ text: 'ohayo', cron: '0 9 * * *', timezone: 'Asia/Tokyo' })).json();
+  assert.match(daily.schedule.nextRunAt, /T00:00:00\.000Z$/);
+
+  for (const id of [local.schedule.id, daily.schedule.id]) {
+    await postJson(`${server.url}/schedules/${id}/cancel`, {});
+  }
+});
+
+test('uploaded audio is kept with the schedule until it ends', async () => {
+  const { schedule: created } = await (await schedule({ audio: Buffer.alloc(100).toString('base64'), sendAt: '2030-01-01T00:00:00Z' })).json();
+  const audioPath = created.payload.audioPath;
+  assert.equal(path.dirname(audioPath), path.join(TEST_ROOT, 'data', 'scheduled-audio'));
+  assert.ok(fs.existsSync(audioPath));
+
+  await postJson(`${server.url}/schedules/${created.id}/cancel`, {});
+  assert.ok(!fs.existsSync(audioPath));
+});
+
+test('scheduled audio is sent as a voice note', { skip: FFMPEG_SKIP }, async () => {
+  const wavPath = path.join(TEST_ROOT, 'scheduled.wav');
+  writeWav(wavPath, 1);
+  const { schedule: created } = await (await schedule({ audioPath: 'scheduled.wav', sendAt: new Date(Date.now() + 200).toISOString() })).json();
+
+  await waitFor(async () => (await getSchedule(created.id)).firings[0]?.status === 'sent', 5000);
+  assert.ok(fs.existsSync(wavPath));
+});
+
+test('invalid schedules are rejected', async () => {
+  const cases: Record<string, unknown>[] = [
+    { text: 'no timing' },
+    { text: 'both', sendAt: '2030-01-01T00:00:00Z', cron: '0 9 * * *' },
+    { text: 'past', sendAt: '2020-01-01T00:00:00Z' },
+    { text: 'bad date', sendAt: 'tomorrow' },
+    { text: 'bad cron', cron: 'every day' },
+    { text: 'bad zone', cron: '0 9 * * *', timezone: 'Mars/Olympus' },
+    { sendAt: '2030-01-01T00:00:00Z' },
+  ];
+  for (const body of cases) {
+    const res = await schedule(body);
+    assert.equal(res.status, 400, JSON.stringify(body));
+    assert.equal((await res.json()).code, 'INVALID_SCHEDULE');
+  }
+
+  const missing = await schedule({ audioPath: 'missing.ogg', cron: '0 9 * * *' });
+  assert.equal(missing.status, 404);
+  assert.equal((await missing.json()).code, 'AUDIO_NOT_FOUND');
+  assert.equal((await get(`${server.url}/schedules/unknown`)).status, 404);
+  assert.equal((await postJson(`${server.url}/schedules/unknown/pause`, {})).status, 404);
+});
@@ -0,0 +1,161 @@
+import './support/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { ADMIN_KEY, TEST_ROOT } from './support/env.js';
+import { FakeTransport, textMessage } from './support/fakeTransport.js';
+import { startServer, get, postJson, waitFor, TestServer } from './support/server.js';
+import { initializeSessions } from '../src/sessions.js';
+import { initializeMessageQueue } from '../src/messageQueue.js';
+import { initializeScheduler } from '../src/scheduler.js';
+import { initializeIdempotency } from '../src/idempotency.js';
+import { initializeMessageStore } from '../src/messageStore.js';
+import { initializeContactActivity } from '../src/contactActivity.js';
+
+const fakes = new Map<string, FakeTransport>();
+let server: TestServer;
+
+before(async () => {
+  await initializeSessions(async sessionId => {
+    const fake = new FakeTransport();
+    fakes.set(sessionId, fake);
+    return fake;
+  });
+  initializeMessageQueue();
+  initializeScheduler();
+  initializeIdempotency();
+  initializeMessageStore();
+  initializeContactActivity();
+  fakes.get('default')!.open();
+  server = await startServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+async function del(url: string) {
+  return fetch(url, { method: 'DELETE', headers: { 'x-api-key': ADMIN_KEY } });
+}
+
+test('sessions are created at runtime and persisted', async () => {
+  const res = await postJson(`${server.url}/sessions`, { id: 'work' });
+  assert.equal(res.status, 201);
+
+  const { sessions } = await (await get(`${server.url}/sessions`)).json();
+  assert.deepEqual(sessions.map((s: any) => s.id), ['default', 'work']);
+
+  const stored = JSON.parse(fs.readFileSync(path.join(TEST_ROOT, 'data', 'sessions.json'), 'utf8'));
+  assert.deepEqual(stored, ['work']);
+});
+
+test('invalid and duplicate session ids are rejected', async () => {
+  assert.equal((await postJson(`${server.url}/sessions`, { id: '../escape' })).status, 400);
+  assert.equal((await postJson(`${server.url}/sessions`, { id: 'work' })).status, 409);
+});
+
+test('scoped routes use their own socket; unscoped routes use the default session', async () => {
+  fakes.get('work')!.showQR('work-qr');
+
+  assert.equal((await (await get(`${server.url}/sessions/work/status`)).json()).status, 'qr_pending');
+  assert.equal((await (await get(`${server.url}/sessions/work/qr`)).json()).qr, 'work-qr');
+  assert.equal((await (await get(`${server.url}/status`)).json()).status, 'connected');
+
+  fakes.get('work')!.open();
+  await postJson(`${server.url}/sessions/work/send/text`, { to: '33611111111', text: 'from work' });
+  const res = await postJson(`${server.url}/send/text`, { to: '33622222222', text: 'from default' });
+  const { id } = await res.json();
+
+  assert.deepEqual(fakes.get('work')!.sent.map(m => m.content), [{ text: 'from work' }]);
+  assert.deepEqual(fakes.get('default')!.sent.map(m => m.content), [{ text: 'from default' }]);
+
+  assert.equal((await get(`${server.url}/sessions/default/messages/${id}`)).status, 200);
+  assert.equal((await get(`${server.url}/sessions/work/messages/${id}`)).status, 404);
+});
+
+test('voices are stored per session', async () => {
+  const work = fakes.get('work')!;
+  work.media.set('V1', Buffer.from('work voice'));
+  work.receive({
+    key: { id: 'V1', remoteJid: '33611111111@s.whatsapp.net', fromMe: false },
+    message: { audioMessage: { url: 'https://mmg.whatsapp.net/v1', ptt: true } },
+    messageTimestamp: Math.floor(Date.now() / 1000),
+  });
+
+  await waitFor(async () => (await (await get(`${server.url}/sessions/work/voices/stats`)).json()).total === 1);
+  const workVoices = await (await get(`${server.url}/sessions/work/voices/list`)).json();
+  const defaultVoices = await (await get(`${server.url}/voices/list`)).json();
+
+  assert.equal(workVoices.total, 1);
+  assert.ok(workVoices.voices[0].path.startsWith(path.join(TEST_ROOT, 'sessions', 'work', 'voices')));
+  assert.equal(defaultVoices.total, 0);
+});
+
+test('unknown sessions are 404 and deleting stops the socket', async () => {
+  assert.equal((await get(`${server.url}/sessions/nope/status`)).status, 404);
+  assert.equal((await del(`${server.url}/sessions/default`)).status, 409);
+
+  const res = await del(`${server.url}/sessions/work`);
+  assert.equal(res.status, 200);
+  assert.equal(fakes.get('work')!.ended, true);
+  assert.equal((await get(`${server.url}/sessions/work/status`)).status, 404);
+  assert.equal(fs.existsSync(path.join(TEST_ROOT, 'sessions', 'work', 'auth_info')), false);
+});
+
+test('deleting a session fails its queued messages, cancels its schedules and drops its idempotency keys', async () => {
+  assert.equal((await postJson(`${server.url}/sessions`, { id: 'temp' })).status, 201);
+
+  // Not connected: the message waits in the queue
+  const queued = await fetch(`${server.url}/sessions/temp/send/text`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-api-key': ADMIN_KEY, 'Idempotency-Key': 'temp-1' },
+    body: JSON.stringify({ to: '33611111111', text: 'later', queue: true }),
+  });
+  assert.equal(queued.status, 202);
+  const { id: messageId } = await queued.json();
+  const scheduled = await postJson(`${server.url}/sessions/temp/schedules`, { to: '33611111111', text: 'tick', cron: '0 9 * * *' });
+  const { schedule } = await scheduled.json();
+
+  assert.equal((await del(`${server.url}/sessions/temp`)).status, 200);
+
+  const read = (name: string) => JSON.parse(fs.readFileSync(path.join(TEST_ROOT, 'data', name), 'utf8'));
+  const message = read('outbound-messages.json').find((m: any) => m.id === messageId);
+  assert.equal(message.status, 'failed');
+  assert.equal(message.error, 'Session deleted');
+  assert.equal(read('schedules.json').find((s: any) => s.id === schedule.id).status, 'cancelled');
+  assert.deepEqual(read('idempotency-keys.json').filter((k: any) => k.sessionId === 'temp'), []);
+});
+
+test('a session recreated under a deleted id starts without the old account\'s data', async () => {
+  const url = `${server.url}/sessions/reused`;
+  const counts = async () => ({
+    chats: (await (await get(`${url}/chats`)).json()).chats.length,
+    contacts: (await (await get(`${url}/contacts/activity`)).json()).contacts.length,
+    voices: (await (await get(`${url}/voices/stats`)).json()).total,
+  });
+
+  assert.equal((await postJson(`${server.url}/sessions`, { id: 'reused' })).status, 201);
+  const old = fakes.get('reused')!;
+  old.open();
+  old.media.set('R2', Buffer.from('old voice'));
+  old.receive(textMessage('R1', '33633333333@s.whatsapp.net', 'hello'), {
+    key: { id: 'R2', remoteJid: '33633333333@s.whatsapp.net', fromMe: false },
+    message: { audioMessage: { url: 'https://mmg.whatsapp.net/r2', ptt: true } },
+    messageTimestamp: Math.floor(Date.now() / 1000),
+  });
+  assert.equal((await postJson(`${url}/contacts/check`, { numbers: ['33633333333'] })).status, 200);
+  await waitFor(async () => (await counts()).voices === 1);
+  assert.deepEqual(await counts(), { chats: 1, contacts: 1, voices: 1 });
+
+  assert.equal((await del(url)).status, 200);
+  assert.equal((await postJson(`${server.url}/sessions`, { id: 'reused' })).status, 201);
+  const fresh = fakes.get('reused')!;
+  fresh.open();
+
+  assert.deepEqual(await counts(), { chats: 0, contacts: 0, voices: 0 });
+  assert.equal((await postJson(`${url}/contacts/check`, { numbers: ['33633333333'] })).status, 200);
+  assert.equal(fresh.lookups.length, 1);
+  const stored = fs.readFileSync(path.join(TEST_ROOT, 'data', 'messages.jsonl'), 'utf8');
+  assert.ok(!stored.includes('"sessionId":"reused"'));
+});
@@ -0,0 +1,35 @@
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+
+// Transcoding tests need the ffmpeg binaries (installed in the Docker image)
+export const HAS_FFMPEG =
+  spawnSync(process.env.FFMPEG_PATH || 'ffmpeg', ['-version']).status === 0 &&
+  spawnSync(process.env.FFPROBE_PATH || 'ffprobe', ['-version']).status === 0;
+
+export const FFMPEG_SKIP = HAS_FFMPEG ? false : 'ffmpeg not installed';
+
+// 16-bit mono PCM WAV with a 440 Hz tone
+export function writeWav(filePath: string, seconds: number, sampleRate = 8000) {
+  const samples = seconds * sampleRate;
+  const data = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    data.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 12000), i * 2);
+  }
+
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(data.length, 40);
+
+  fs.writeFileSync(filePath, Buffer.concat([header, data]));
+}
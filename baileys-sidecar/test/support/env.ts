@@ -0,0 +1,25 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Must be imported before anything from src/: whatsapp.ts reads these paths at load time.
+export const TEST_ROOT = fs.mkdtempSync(path.join(os.tmpdir(), 'baileys-sidecar-test-'));
+
+process.env.VOICES_PATH = path.join(TEST_ROOT, 'voices');
+process.env.BAILEYS_AUTH_PATH = path.join(TEST_ROOT, 'auth_info');
+process.env.DATA_PATH = path.join(TEST_ROOT, 'data');
+process.env.SESSIONS_PATH = path.join(TEST_ROOT, 'sessions');
+process.env.AUDIO_ROOT = TEST_ROOT;
+process.env.MAX_AUDIO_BYTES = String(1024 * 1024);
+process.env.OUTBOUND_RETRY_DELAY_MS = '20';
+process.env.WEBHOOK_RETRY_DELAY_MS = '20';
+process.env.RECONNECT_DELAY_MS = '20';
+process.env.RATE_LIMIT_GLOBAL = 'off';
+process.env.RATE_LIMIT_PER_RECIPIENT = 'off';
+process.env.VALIDATE_RESPONSES = 'true';
+delete process.env.API_KEY;
+
+export const ADMIN_KEY = 'test-admin-key';
+export const SEND_KEY = 'test-send-key';
+
+process.env.API_KEYS = `${ADMIN_KEY}=admin;${SEND_KEY}=send`;
@@ -0,0 +1,161 @@
+import { EventEmitter } from 'events';
+import {
+  AnyMessageContent,
+  BaileysEventEmitter,
+  BaileysEventMap,
+  Chat,
+  DisconnectReason,
+  GroupMetadata,
+  WAMessage,
+} from '@whiskeysockets/baileys';
+import { Boom } from '@hapi/boom';
+import { VoiceNote, WhatsAppTransport } from '../../src/transport.js';
+
+export interface SentMessage {
+  jid: string;
+  content: AnyMessageContent | VoiceNote;
+  messageId: string;
+}
+
+// In-memory transport: records outgoing messages, serves scripted media,
+// and lets a test drive the connection lifecycle and inbound traffic.
+export class FakeTransport implements WhatsAppTransport {
+  readonly ev = new EventEmitter() as unknown as BaileysEventEmitter;
+  readonly sent: SentMessage[] = [];
+  readonly media = new Map<string, Buffer>();
+  // Errors thrown by the next send calls, in order
+  readonly sendFailures: Error[] = [];
+  // Numbers (digits only) that onWhatsApp reports as not registered, and numbers registered
+  // under another canonical JID
+  readonly unregistered = new Set<string>();
+  readonly canonicalJids = new Map<string, string>();
+  // Served by groupFetchAllParticipating
+  readonly groups: GroupMetadata[] = [];
+  // JIDs of every onWhatsApp call, one array per call
+  readonly lookups: string[][] = [];
+  // Awaited by every media download, so a test can hold a download job mid-message
+  downloadGate: Promise<void> = Promise.resolve();
+  ended = false;
+  loggedOut = false;
+  credsFlushes = 0;
+
+  private nextId = 1;
+
+  async sendMessage(jid: string, content: AnyMessageContent): Promise<WAMessage | undefined> {
+    return this.record(jid, content);
+  }
+
+  async sendVoiceNote(jid: string, note: VoiceNote): Promise<WAMessage | undefined> {
+    return this.record(jid, note);
+  }
+
+  private record(jid: string, content: AnyMessageContent | VoiceNote): WAMessage {
+    const failure = this.sendFailures.shift();
+    if (failure) {
+      throw failure;
+    }
+
+    const messageId = `FAKE${this.nextId++}`;
+    this.sent.push({ jid, content, messageId });
+    return {
+      key: { id: messageId, remoteJid: jid, fromMe: true },
+      messageTimestamp: Math.floor(Date.now() / 1000),
+    };
+  }
+
+  async downloadMedia(message: WAMessage): Promise<Buffer> {
+    await this.downloadGate;
+    const buffer = this.media.get(message.key.id!);
+    if (!buffer) {
+      throw new Error(`No media scripted for message ${message.key.id}`);
+    }
+    return buffer;
+  }
+
+  // Like Baileys: registered numbers only, under their canonical JID
+  async onWhatsApp(...jids: string[]): Promise<{ jid: string; exists: boolean }[]> {
+    this.lookups.push(jids);
+    return jids
+      .map(jid => jid.split('@')[0])
+      .filter(number => !this.unregistered.has(number))
+      .map(number => ({ jid: this.canonicalJids.get(number) || `${number}@s.whatsapp.net`, exists: true }));
+  }
+
+  async groupFetchAllParticipating(): Promise<{ [jid: string]: GroupMetadata }> {
+    return Object.fromEntries(this.groups.map(group => [group.id, group]));
+  }
+
+  async flushCreds() {
+    this.credsFlushes++;
+  }
+
+  async logout() {
+    this.loggedOut = true;
+    this.ended = true;
+  }
+
+  end() {
+    this.ended = true;
+  }
+
+  // Listeners still attached, to check a torn-down socket was left clean
+  listenerCount(event: keyof BaileysEventMap): number {
+    return (this.ev as unknown as EventEmitter).listenerCount(event);
+  }
+
+  emit<T extends keyof BaileysEventMap>(event: T, arg: BaileysEventMap[T]) {
+    this.ev.emit(event, arg);
+  }
+
+  showQR(qr: string) {
+    this.emit('connection.update', { qr });
+  }
+
+  open() {
+    this.emit('connection.update', { connection: 'open' });
+  }
+
+  close(statusCode: number = DisconnectReason.connectionClosed) {
+    this.emit('connection.update', {
+      connection: 'close',
+      lastDisconnect: { error: new Boom('Connection closed', { statusCode }), date: new Date() },
+    });
+  }
+
+  // Delivery receipt for a message we sent (proto.WebMessageInfo.Status)
+  receipt(messageId: string, remoteJid: string, status: number) {
+    this.emit('messages.update', [{ key: { id: messageId, remoteJid, fromMe: true }, update: { status } }]);
+  }
+
+  receive(...messages: WAMessage[]) {
+    this.emit('messages.upsert', { messages, type: 'notify' });
+  }
+
+  // Messages delivered by the initial history sync after linking
+  syncHistory(messages: WAMessage[], chats: Chat[] = []) {
+    this.emit('messaging-history.set', { chats, contacts: [], messages, isLatest: true });
+  }
+}
+
+export function textMessage(id: string, remoteJid: string, text: string, fromMe = false): WAMessage {
+  return {
+    key: { id, remoteJid, fromMe },
+    message: { conversation: text },
+    messageTimestamp: Math.floor(Date.now() / 1000),
+  };
+}
+
+export function voiceNote(id: string, remoteJid: string, fromMe = false, timestamp = Math.floor(Date.now() / 1000)): WAMessage {
+  return {
+    key: { id, remoteJid, fromMe },
+    message: {
+      audioMessage: {
+        url: `https://mmg.whatsapp.net/fake/${id}`,
+        mimetype: 'audio/ogg; codecs=opus',
+        ptt: true,
+        seconds: 3,
+      },
+    },
+    messageTimestamp: timestamp,
+  };
+}
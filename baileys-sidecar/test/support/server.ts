@@ -0,0 +1,44 @@
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import { createApp } from '../../src/app.js';
+import { ADMIN_KEY } from './env.js';
+
+export interface TestServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+export async function startServer(): Promise<TestServer> {
+  const server = createApp().listen(0);
+  await once(server, 'listening');
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
+
+// Requests are authenticated with the admin key unless another key (or null) is given
+export async function get(url: string, apiKey: string | null = ADMIN_KEY) {
+  return fetch(url, { headers: apiKey ? { 'x-api-key': apiKey } : {} });
+}
+
+export async function postJson(url: string, body: unknown, apiKey: string | null = ADMIN_KEY) {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(apiKey ? { 'x-api-key': apiKey } : {}) },
+    body: JSON.stringify(body),
+  });
+}
+
+// Poll until the predicate holds; event handlers in the sidecar run asynchronously.
+export async function waitFor(predicate: () => boolean | Promise<boolean>, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await predicate())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
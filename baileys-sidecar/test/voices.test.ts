@@ -0,0 +1,259 @@
+import './support/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { ADMIN_KEY, SEND_KEY, TEST_ROOT } from './support/env.js';
+import { FFMPEG_SKIP, writeWav } from './support/audio.js';
+import { FakeTransport, voiceNote } from './support/fakeTransport.js';
+import { startServer, get, postJson, waitFor, TestServer } from './support/server.js';
+import { readZip } from './support/zip.js';
+import { initializeSessions } from '../src/sessions.js';
+import { findVoices, indexExistingVoices, voiceId } from '../src/voiceIndex.js';
+
+const ALICE = '33611111111@s.whatsapp.net';
+const BOB = '33622222222@s.whatsapp.net';
+const CAROL = '33644444444@s.whatsapp.net';
+const DAY = 24 * 60 * 60;
+const NOW = Math.floor(Date.now() / 1000);
+
+let fake: FakeTransport;
+let server: TestServer;
+
+async function list(query = '') {
+  return (await get(`${server.url}/voices/list${query}`)).json();
+}
+
+before(async () => {
+  // Saved by an older version, before the index existed
+  const legacyDir = path.join(TEST_ROOT, 'voices', '2024-01-15', '33633333333');
+  fs.mkdirSync(legacyDir, { recursive: true });
+  fs.writeFileSync(path.join(legacyDir, 'received_voice_1705312800.ogg'), 'legacy');
+
+  fake = new FakeTransport();
+  await initializeSessions(async () => fake);
+  fake.open();
+  server = await startServer();
+
+  const voices = [
+    voiceNote('A1', ALICE, false, NOW - 3 * DAY),
+    voiceNote('A2', ALICE, true, NOW - 2 * DAY),
+    voiceNote('B1', BOB, false, NOW - DAY),
+  ];
+  voices.forEach((voice, i) => fake.media.set(voice.key.id!, Buffer.alloc(100 * (i + 1))));
+  fake.receive(...voices);
+  await waitFor(async () => (await list()).total === 4);
+});
+
+after(async () => {
+  await server.close();
+});
+
+test('voices already on disk are indexed once', async () => {
+  const { voices } = await list('?contact=33633333333');
+  assert.equal(voices.length, 1);
+  assert.equal(voices[0].messageId, null);
+  assert.equal(voices[0].timestamp, '2024-01-15T10:00:00.000Z');
+});
+
+test('saved voices are recorded with their metadata', async () => {
+  const { voices } = await list('?contact=%2B33%206%2011%2011%2011%2011');
+  assert.deepEqual(voices.map((v: any) => v.messageId), ['A2', 'A1']);
+
+  const [sent] = voices;
+  assert.equal(sent.contact, ALICE);
+  assert.equal(sent.direction, 'sent');
+  assert.equal(sent.seconds, 3);
+  assert.equal(sent.size, 200);
+  assert.equal(sent.timestamp, new Date((NOW - 2 * DAY) * 1000).toISOString());
+  assert.ok(fs.existsSync(sent.path));
+
+  const lines = fs.readFileSync(path.join(TEST_ROOT, 'data', 'voices.jsonl'), 'utf8').trim().split('\n');
+  assert.equal(lines.length, 4);
+});
+
+test('/voices/list filters, sorts and paginates', async () => {
+  assert.deepEqual((await list('?direction=received&contact=' + ALICE)).voices.map((v: any) => v.messageId), ['A1']);
+
+  const recent = await list(`?from=${new Date((NOW - 2 * DAY) * 1000).toISOString()}`);
+  assert.deepEqual(recent.voices.map((v: any) => v.messageId), ['B1', 'A2']);
+
+  const page = await list('?sort=size&order=asc&limit=2&offset=1');
+  assert.equal(page.total, 4);
+  assert.equal(page.limit, 2);
+  assert.deepEqual(page.voices.map((v: any) => v.messageId), ['A1', 'A2']);
+});
+
+test('/voices/list rejects invalid parameters', async () => {
+  for (const query of ['?direction=both', '?sort=name', '?from=yesterday', '?limit=-1']) {
+    const res = await get(`${server.url}/voices/list${query}`);
+    assert.equal(res.status, 400, query);
+    assert.equal((await res.json()).code, 'INVALID_QUERY');
+  }
+});
+
+test('/voices/stats is computed from the index', async () => {
+  const stats = await (await get(`${server.url}/voices/stats`)).json();
+  assert.equal(stats.total, 4);
+  assert.equal(stats.sent, 1);
+  assert.equal(stats.received, 3);
+  assert.equal(stats.totalSize, 600 + 'legacy'.length);
+});
+
+test('voice ids come from the message key and survive a re-download', async () => {
+  const [voice] = (await list('?contact=' + BOB)).voices;
+  assert.equal(voice.id, voiceId({ remoteJid: BOB, fromMe: false, id: 'B1' }));
+
+  // Already saved: not downloaded nor indexed again
+  fake.media.set('C1', Buffer.from('another voice'));
+  fake.receive(voiceNote('B1', BOB, false, NOW - DAY), voiceNote('C1', CAROL, false, NOW));
+  await waitFor(async () => (await list()).total === 5);
+  const lines = fs.readFileSync(path.join(TEST_ROOT, 'data', 'voices.jsonl'), 'utf8').trim().split('\n');
+  assert.equal(lines.length, 5);
+  assert.equal(JSON.parse(lines[4]).messageId, 'C1');
+});
+
+test('identical audio is stored once', async () => {
+  fake.media.set('F1', fake.media.get('A1')!);
+  fake.receive(voiceNote('F1', CAROL));
+  await waitFor(async () => (await list()).total === 6);
+
+  const [forwarded] = (await list('?contact=' + CAROL + '&sort=savedAt')).voices;
+  const [original] = (await list('?contact=' + ALICE + '&direction=received')).voices;
+  assert.equal(forwarded.messageId, 'F1');
+  assert.equal(forwarded.path, original.path);
+  assert.equal(fs.existsSync(path.join(TEST_ROOT, 'voices', '33644444444', 'received_F1.ogg')), false);
+});
+
+test('GET /voices/:id/audio streams the recording with Range support', async () => {
+  const [voice] = (await list('?contact=' + BOB)).voices;
+
+  const full = await get(`${server.url}/voices/${voice.id}/audio`);
+  assert.equal(full.status, 200);
+  assert.equal(full.headers.get('content-type'), 'audio/ogg');
+  assert.equal(full.headers.get('accept-ranges'), 'bytes');
+  assert.equal((await full.arrayBuffer()).byteLength, 300);
+
+  const partial = await fetch(`${server.url}/voices/${voice.id}/audio`, {
+    headers: { 'x-api-key': ADMIN_KEY, Range: 'bytes=10-19' },
+  });
+  assert.equal(partial.status, 206);
+  assert.equal(partial.headers.get('content-range'), 'bytes 10-19/300');
+  assert.equal((await partial.arrayBuffer()).byteLength, 10);
+
+  assert.equal((await get(`${server.url}/voices/unknown/audio`)).status, 404);
+  assert.equal((await get(`${server.url}/voices/${voice.id}/audio?format=flac`)).status, 400);
+});
+
+test('GET /voices/:id/audio?format=mp3 converts for browsers', { skip: FFMPEG_SKIP }, async () => {
+  const wavPath = path.join(TEST_ROOT, 'voices', 'tone.wav');
+  writeWav(wavPath, 1);
+  fake.media.set('W1', fs.readFileSync(wavPath));
+  fake.receive(voiceNote('W1', ALICE));
+  const id = voiceId({ remoteJid: ALICE, fromMe: false, id: 'W1' });
+  await waitFor(async () => (await get(`${server.url}/voices/${id}/audio`)).status === 200);
+
+  const res = await get(`${server.url}/voices/${id}/audio?format=mp3`);
+  assert.equal(res.status, 200);
+  assert.equal(res.headers.get('content-type'), 'audio/mpeg');
+});
+
+test('POST /voices/export streams a ZIP with a manifest', async () => {
+  const res = await postJson(`${server.url}/voices/export`, {
+    contact: ALICE,
+    from: new Date((NOW - 4 * DAY) * 1000).toISOString(),
+    to: new Date((NOW - DAY) * 1000).toISOString(),
+  });
+  assert.equal(res.status, 200);
+  assert.equal(res.headers.get('content-type'), 'application/zip');
+  assert.match(res.headers.get('content-disposition')!, /^attachment; filename="voices-33611111111-\d{4}-\d{2}-\d{2}\.zip"$/);
+
+  const files = readZip(Buffer.from(await res.arrayBuffer()));
+  const manifest = JSON.parse(files.get('manifest.json')!.toString());
+  assert.deepEqual(manifest.map((e: any) => [e.messageId, e.direction, e.seconds]), [['A1', 'received', 3], ['A2', 'sent', 3]]);
+  assert.deepEqual(files.get(manifest[1].file), Buffer.alloc(200));
+  assert.match(manifest[0].file, /^33611111111\/\d{4}-\d{2}-\d{2}_\d{6}_received_A1\.ogg$/);
+
+  const csv = files.get('manifest.csv')!.toString().trim().split('\n');
+  assert.equal(csv[0], 'file,id,messageId,contact,participant,direction,timestamp,seconds,format');
+  assert.equal(csv.length, 3);
+
+  const sent = readZip(Buffer.from(await (await postJson(`${server.url}/voices/export`, { contact: ALICE, direction: 'sent' })).arrayBuffer()));
+  assert.equal(sent.size, 3);
+});
+
+test('POST /voices/export validates its filters', async () => {
+  assert.equal((await postJson(`${server.url}/voices/export`, { format: 'flac' })).status, 400);
+  assert.equal((await postJson(`${server.url}/voices/export`, { from: 'yesterday' })).status, 400);
+  assert.equal((await postJson(`${server.url}/voices/export`, { contact: '33699999999' })).status, 404);
+});
+
+test('POST /voices/export converts to WAV', { skip: FFMPEG_SKIP }, async () => {
+  const wavPath = path.join(TEST_ROOT, 'voices', 'export.wav');
+  writeWav(wavPath, 1);
+  fake.media.set('W2', fs.readFileSync(wavPath));
+  fake.receive(voiceNote('W2', '33655555555@s.whatsapp.net'));
+  await waitFor(async () => (await list('?contact=33655555555')).total === 1);
+
+  const res = await postJson(`${server.url}/voices/export`, { contact: '33655555555', format: 'wav' });
+  const files = readZip(Buffer.from(await res.arrayBuffer()));
+  const [entry] = JSON.parse(files.get('manifest.json')!.toString());
+  assert.equal(entry.format, 'wav');
+  assert.equal(files.get(entry.file)!.subarray(0, 4).toString(), 'RIFF');
+});
+
+test('DELETE /voices/:id removes the file and the index entry', async () => {
+  const [voice] = (await list('?contact=' + BOB)).voices;
+
+  const res = await fetch(`${server.url}/voices/${voice.id}`, { method: 'DELETE', headers: { 'x-api-key': ADMIN_KEY } });
+  assert.equal(res.status, 200);
+  assert.equal(fs.existsSync(voice.path), false);
+  assert.equal((await list('?contact=' + BOB)).total, 0);
+  assert.equal((await get(`${server.url}/voices/${voice.id}/audio`)).status, 404);
+
+  const lines = fs.readFileSync(path.join(TEST_ROOT, 'data', 'voices.jsonl'), 'utf8').trim().split('\n');
+  assert.deepEqual(Object.keys(JSON.parse(lines.at(-1)!)), ['sessionId', 'id', 'deletedAt']);
+
+  const again = await fetch(`${server.url}/voices/${voice.id}`, { method: 'DELETE', headers: { 'x-api-key': SEND_KEY } });
+  assert.equal(again.status, 403);
+});
+
+test('group voice notes are saved with the member who sent them', async () => {
+  const GROUP = '120363000000000001@g.us';
+  const fromLid = voiceNote('G1', GROUP);
+  fromLid.key.participant = '98765432109876@lid';
+  fromLid.key.participantAlt = '33655555555@s.whatsapp.net';
+  const fromPn = voiceNote('G2', GROUP);
+  fromPn.key.participant = '33666666666@s.whatsapp.net';
+  const own = voiceNote('G3', GROUP, true);
+  for (const [i, voice] of [fromLid, fromPn, own].entries()) {
+    fake.media.set(voice.key.id!, Buffer.alloc(10 + i));
+  }
+  fake.receive(fromLid, fromPn, own);
+  await waitFor(async () => (await list(`?contact=${GROUP}`)).total === 3);
+
+  const { voices } = await list(`?contact=${GROUP}&sort=size&order=asc`);
+  assert.deepEqual(voices.map((v: any) => v.participant), ['33655555555@s.whatsapp.net', '33666666666@s.whatsapp.net', null]);
+  assert.equal(path.dirname(voices[0].path), path.join(TEST_ROOT, 'voices', '120363000000000001'));
+
+  const byMember = await list('?participant=%2B33655555555');
+  assert.deepEqual(byMember.voices.map((v: any) => v.messageId), ['G1']);
+});
+
+test('voice files named without a direction are indexed as received', () => {
+  const voicesPath = path.join(TEST_ROOT, 'legacy-voices');
+  const contactDir = path.join(voicesPath, '2026-01-08', '33621962379');
+  fs.mkdirSync(contactDir, { recursive: true });
+  fs.writeFileSync(path.join(contactDir, 'voice_1767877052.ogg'), 'oldest');
+  fs.writeFileSync(path.join(contactDir, 'sent_voice_1767877090.ogg'), 'sent');
+
+  indexExistingVoices('legacy', voicesPath);
+  const voices = findVoices('legacy', { sort: 'timestamp', order: 'asc' });
+  assert.deepEqual(
+    voices.map(v => [v.contact, v.direction, v.timestamp]),
+    [
+      ['33621962379@s.whatsapp.net', 'received', '2026-01-08T12:57:32.000Z'],
+      ['33621962379@s.whatsapp.net', 'sent', '2026-01-08T12:58:10.000Z'],
+    ]
+  );
+});
@@ -0,0 +1,149 @@
+import './support/env.js';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import { proto } from '@whiskeysockets/baileys';
+import { FakeTransport, textMessage, voiceNote } from './support/fakeTransport.js';
+import { startServer, get, waitFor, TestServer } from './support/server.js';
+import { initializeSessions } from '../src/sessions.js';
+import { initializeWebhooks, signPayload } from '../src/webhooks.js';
+import { positiveInteger } from '../src/config.js';
+
+const CONTACT = '33612345678@s.whatsapp.net';
+const SECRET = 'webhook-secret';
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+let fake: FakeTransport;
+let server: TestServer;
+let receiver: http.Server;
+let received: Received[] = [];
+let failuresLeft = 0;
+// While set, successful requests wait for it before being answered
+let gate: Promise<void> | null = null;
+let held = 0;
+
+before(async () => {
+  receiver = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', async () => {
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        res.writeHead(500).end();
+        return;
+      }
+      if (gate) {
+        held++;
+        await gate;
+      }
+      received.push({ headers: req.headers, body });
+      res.writeHead(204).end();
+    });
+  }).listen(0);
+  await once(receiver, 'listening');
+
+  process.env.WEBHOOK_URLS = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+  process.env.WEBHOOK_SECRET = SECRET;
+  initializeWebhooks();
+
+  fake = new FakeTransport();
+  await initializeSessions(async () => fake);
+  server = await startServer();
+});
+
+after(async () => {
+  await server.close();
+  receiver.close();
+});
+
+function events(name: string) {
+  return received.map(r => JSON.parse(r.body)).filter(e => e.event === name);
+}
+
+test('connection changes are signed and delivered', async () => {
+  fake.open();
+  await waitFor(() => events('connection.update').length === 1);
+
+  const [request] = received;
+  const timestamp = request.headers['x-keepclose-timestamp'] as string;
+  assert.equal(request.headers['x-keepclose-event'], 'connection.update');
+  assert.equal(request.headers['x-keepclose-signature'], `sha256=${signPayload(SECRET, timestamp, request.body)}`);
+  assert.deepEqual(events('connection.update')[0].data, { connection: 'open', status: 'connected', statusCode: null });
+});
+
+test('inbound text and voice notes are forwarded', async () => {
+  fake.media.set('VOICE1', Buffer.from('voice bytes'));
+  fake.receive(
+    textMessage('TEXT1', CONTACT, 'coucou'),
+    textMessage('TEXT2', CONTACT, 'my own message', true),
+    voiceNote('VOICE1', CONTACT)
+  );
+
+  await waitFor(() => events('message.voice').length === 1);
+
+  const texts = events('message.text');
+  assert.equal(texts.length, 1);
+  assert.equal(texts[0].data.text, 'coucou');
+  assert.equal(texts[0].data.from, CONTACT);
+
+  const voice = events('message.voice')[0].data;
+  assert.equal(voice.messageId, 'VOICE1');
+  assert.match(voice.filePath, /received_VOICE1\.ogg$/);
+});
+
+test('receipts are forwarded', async () => {
+  fake.receipt('SENT1', CONTACT, proto.WebMessageInfo.Status.READ);
+  await waitFor(() => events('message.receipt').length === 1);
+  assert.deepEqual(events('message.receipt')[0].data, { messageId: 'SENT1', chat: CONTACT, status: 'read' });
+});
+
+test('failed deliveries are listed and retried', async () => {
+  failuresLeft = 2;
+  received = [];
+  fake.receive(textMessage('TEXT3', CONTACT, 'are you there?'));
+
+  let listed: any = null;
+  await waitFor(async () => {
+    listed = await (await get(`${server.url}/webhooks/deliveries?status=retrying`)).json();
+    return listed.total === 1;
+  });
+  assert.equal(listed.deliveries[0].lastError, 'HTTP 500');
+  assert.equal(listed.deliveries[0].payload.event, 'message.text');
+
+  await waitFor(() => events('message.text').length === 1);
+  await waitFor(async () => (await (await get(`${server.url}/webhooks/deliveries`)).json()).total === 0);
+});
+
+test('a failure during a retry pass does not post the retried delivery again', async () => {
+  received = [];
+  let release!: () => void;
+  gate = new Promise(resolve => (release = resolve));
+  held = 0;
+
+  failuresLeft = 1;
+  fake.receive(textMessage('TEXT4', CONTACT, 'first'));
+  await waitFor(() => held === 1);
+
+  // TEXT4's retry is in flight when TEXT5 fails
+  failuresLeft = 1;
+  fake.receive(textMessage('TEXT5', CONTACT, 'second'));
+  await waitFor(async () => (await (await get(`${server.url}/webhooks/deliveries`)).json()).total === 2);
+  await new Promise(resolve => setTimeout(resolve, 100));
+  assert.equal(held, 1);
+
+  gate = null;
+  release();
+  await waitFor(async () => (await (await get(`${server.url}/webhooks/deliveries`)).json()).total === 0);
+  assert.deepEqual(events('message.text').map(e => e.data.messageId), ['TEXT4', 'TEXT5']);
+});
+
+test('WEBHOOK_MAX_ATTEMPTS must be a positive integer', () => {
+  assert.equal(positiveInteger('WEBHOOK_MAX_ATTEMPTS', 8, { WEBHOOK_MAX_ATTEMPTS: '' }), 8);
+  assert.throws(() => positiveInteger('WEBHOOK_MAX_ATTEMPTS', 8, { WEBHOOK_MAX_ATTEMPTS: 'eight' }), /Invalid WEBHOOK_MAX_ATTEMPTS "eight"/);
+});
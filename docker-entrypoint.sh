@@ -15,6 +15,12 @@ cd /app
 java -jar app.jar &
 KTOR_PID=$!
 
-# Wait for both processes
-wait $BAILEYS_PID
-wait $KTOR_PID
+# docker stop signals this shell only: pass it on so the sidecar can save its creds
+trap 'kill -TERM $BAILEYS_PID $KTOR_PID 2>/dev/null' TERM INT
+
+# Wait for both processes; a trapped signal interrupts wait, so keep waiting until each one is gone
+for PID in $BAILEYS_PID $KTOR_PID; do
+  while kill -0 $PID 2>/dev/null; do
+    wait $PID
+  done
+done
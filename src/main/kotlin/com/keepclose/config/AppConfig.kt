@@ -3,6 +3,8 @@ package com.keepclose.config
 data class AppConfig(
     val port: Int = System.getenv("PORT")?.toIntOrNull() ?: 8080,
     val baileysUrl: String = System.getenv("BAILEYS_URL") ?: "http://localhost:3001",
+    // Sidecar key (needs the "send" scope); falls back to the shared API_KEY
+    val baileysApiKey: String = System.getenv("BAILEYS_API_KEY")?.takeIf { it.isNotBlank() } ?: System.getenv("API_KEY") ?: "",
     val baileysAuthPath: String = System.getenv("BAILEYS_AUTH_PATH") ?: "/data/auth_info",
     val elevenLabsApiKey: String = System.getenv("ELEVENLABS_API_KEY") ?: "",
     val elevenLabsDefaultVoiceId: String = System.getenv("ELEVENLABS_DEFAULT_VOICE_ID") ?: "",
@@ -6,6 +6,7 @@ import com.keepclose.api.dto.SendMessageRequest
 import com.keepclose.infrastructure.storage.AudioStorage
 import com.keepclose.infrastructure.tts.ElevenLabsClient
 import com.keepclose.infrastructure.whatsapp.BaileysClient
+import com.keepclose.infrastructure.whatsapp.MessageStatus
 import org.slf4j.LoggerFactory
 import java.util.*
 
@@ -86,6 +87,10 @@ class MessageService(
         return baileysClient.sendAudio(request.to, audioPath)
     }
 
+    suspend fun getDeliveryStatus(messageId: String): Result<MessageStatus> {
+        return baileysClient.getMessageStatus(messageId)
+    }
+
     suspend fun checkBaileysStatus(): String {
         return baileysClient.getStatus().getOrElse { "error" }
     }
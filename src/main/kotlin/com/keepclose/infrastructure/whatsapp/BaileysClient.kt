@@ -4,11 +4,21 @@ import com.keepclose.config.AppConfig
 import io.ktor.client.*
 import io.ktor.client.call.*
 import io.ktor.client.request.*
+import io.ktor.client.request.forms.*
 import io.ktor.client.statement.*
 import io.ktor.http.*
+import kotlinx.coroutines.delay
 import kotlinx.serialization.Serializable
 import kotlinx.serialization.json.Json
 import org.slf4j.LoggerFactory
+import java.io.File
+import java.io.IOException
+import java.util.Base64
+import java.util.UUID
+
+// Timeouts and dropped connections, retried under the same Idempotency-Key
+private const val SEND_ATTEMPTS = 3
+private const val SEND_RETRY_DELAY_MS = 2_000L
 
 class BaileysClient(
     private val httpClient: HttpClient,
@@ -21,7 +31,7 @@ class BaileysClient(
         return try {
             logger.debug("Sending text to Baileys sidecar: to=$to")
 
-            val response: HttpResponse = httpClient.post("$baseUrl/send/text") {
+            val response: HttpResponse = postSend("/send/text") {
                 contentType(ContentType.Application.Json)
                 setBody(SendTextRequest(to = formatPhoneNumber(to), text = text))
             }
@@ -31,7 +41,7 @@ class BaileysClient(
                 logger.info("Text message sent successfully: messageId=${result.messageId}")
                 Result.success(result.messageId ?: "unknown")
             } else {
-                val error = "Baileys error: ${response.status}"
+                val error = errorFrom(response)
                 logger.error(error)
                 Result.failure(Exception(error))
             }
@@ -41,13 +51,16 @@ class BaileysClient(
         }
     }
 
+    // The file is sent in the request body, so the sidecar does not need access to our volume
     suspend fun sendAudio(to: String, audioPath: String): Result<String> {
         return try {
             logger.debug("Sending audio to Baileys sidecar: to=$to, audioPath=$audioPath")
 
-            val response: HttpResponse = httpClient.post("$baseUrl/send/audio") {
+            val audio = Base64.getEncoder().encodeToString(File(audioPath).readBytes())
+
+            val response: HttpResponse = postSend("/send/audio") {
                 contentType(ContentType.Application.Json)
-                setBody(SendAudioRequest(to = formatPhoneNumber(to), audioPath = audioPath))
+                setBody(SendAudioRequest(to = formatPhoneNumber(to), audio = audio))
             }
 
             if (response.status.isSuccess()) {
@@ -55,7 +68,7 @@ class BaileysClient(
                 logger.info("Audio message sent successfully: messageId=${result.messageId}")
                 Result.success(result.messageId ?: "unknown")
             } else {
-                val error = "Baileys error: ${response.status}"
+                val error = errorFrom(response)
                 logger.error(error)
                 Result.failure(Exception(error))
             }
@@ -65,15 +78,71 @@ class BaileysClient(
         }
     }
 
+    // Images (JPEG/PNG), videos (MP4/3GP) and documents of any type. Sent as a multipart upload:
+    // base64 JSON bodies are capped by the sidecar's JSON_BODY_LIMIT, below the video and document limits.
+    suspend fun sendMedia(
+        to: String,
+        kind: MediaKind,
+        filePath: String,
+        caption: String? = null,
+        fileName: String? = null
+    ): Result<String> {
+        return try {
+            logger.debug("Sending ${kind.path} to Baileys sidecar: to=$to, filePath=$filePath")
+
+            val file = File(filePath)
+            val documentName = fileName ?: file.name.takeIf { kind == MediaKind.DOCUMENT }
+
+            val response: HttpResponse = postSend("/send/${kind.path}") {
+                setBody(MultiPartFormDataContent(formData {
+                    append("to", formatPhoneNumber(to))
+                    caption?.let { append("caption", it) }
+                    documentName?.let { append("fileName", it) }
+                    append("file", file.readBytes(), Headers.build {
+                        append(HttpHeaders.ContentDisposition, "filename=${file.name.escapeIfNeeded()}")
+                    })
+                }))
+            }
+
+            if (response.status.isSuccess()) {
+                val result = response.body<BaileysResponse>()
+                logger.info("${kind.path} message sent successfully: messageId=${result.messageId}")
+                Result.success(result.messageId ?: "unknown")
+            } else {
+                val error = errorFrom(response)
+                logger.error(error)
+                Result.failure(Exception(error))
+            }
+        } catch (e: Exception) {
+            logger.error("Failed to send ${kind.path} message", e)
+            Result.failure(e)
+        }
+    }
+
+    suspend fun getMessageStatus(messageId: String): Result<MessageStatus> {
+        return try {
+            val response: HttpResponse = httpClient.get("$baseUrl/messages/$messageId") { withApiKey() }
+
+            if (response.status.isSuccess()) {
+                Result.success(response.body<MessageStatus>())
+            } else {
+                Result.failure(Exception("Failed to get message status: ${errorFrom(response)}"))
+            }
+        } catch (e: Exception) {
+            logger.error("Failed to get message status", e)
+            Result.failure(e)
+        }
+    }
+
     suspend fun getStatus(): Result<String> {
         return try {
-            val response: HttpResponse = httpClient.get("$baseUrl/status")
+            val response: HttpResponse = httpClient.get("$baseUrl/status") { withApiKey() }
 
             if (response.status.isSuccess()) {
                 val result = response.body<StatusResponse>()
                 Result.success(result.status)
             } else {
-                Result.failure(Exception("Failed to get status: ${response.status}"))
+                Result.failure(Exception("Failed to get status: ${errorFrom(response)}"))
             }
         } catch (e: Exception) {
             logger.error("Failed to get Baileys status", e)
@@ -83,13 +152,13 @@ class BaileysClient(
 
     suspend fun getQrCode(): Result<String> {
         return try {
-            val response: HttpResponse = httpClient.get("$baseUrl/qr")
+            val response: HttpResponse = httpClient.get("$baseUrl/qr") { withApiKey() }
 
             if (response.status.isSuccess()) {
                 val result = response.body<QrResponse>()
                 Result.success(result.qr ?: "No QR available")
             } else {
-                Result.failure(Exception("Failed to get QR: ${response.status}"))
+                Result.failure(Exception("Failed to get QR: ${errorFrom(response)}"))
             }
         } catch (e: Exception) {
             logger.error("Failed to get QR code", e)
@@ -97,6 +166,51 @@ class BaileysClient(
         }
     }
 
+    // One Idempotency-Key per send, reused by every attempt: when a request times out, the retry
+    // gets the sidecar's first answer back instead of sending the message a second time.
+    // 409 IDEMPOTENCY_KEY_IN_USE means the first attempt is still being sent.
+    private suspend fun postSend(path: String, block: HttpRequestBuilder.() -> Unit): HttpResponse {
+        val idempotencyKey = UUID.randomUUID().toString()
+        var attempt = 1
+        while (true) {
+            val response = try {
+                httpClient.post("$baseUrl$path") {
+                    withApiKey()
+                    header("Idempotency-Key", idempotencyKey)
+                    block()
+                }
+            } catch (e: IOException) {
+                if (attempt >= SEND_ATTEMPTS) {
+                    throw e
+                }
+                logger.warn("Request to $path failed (attempt $attempt), retrying: ${e.message}")
+                null
+            }
+
+            if (response != null && (response.status != HttpStatusCode.Conflict || attempt >= SEND_ATTEMPTS)) {
+                return response
+            }
+            delay(SEND_RETRY_DELAY_MS * attempt)
+            attempt++
+        }
+    }
+
+    private fun HttpRequestBuilder.withApiKey() {
+        if (config.baileysApiKey.isNotBlank()) {
+            header("x-api-key", config.baileysApiKey)
+        }
+    }
+
+    // Sidecar errors look like {"success": false, "code": "FORBIDDEN", "error": "..."}
+    private suspend fun errorFrom(response: HttpResponse): String {
+        val body = runCatching { response.body<BaileysResponse>() }.getOrNull()
+        return if (body?.error != null) {
+            "Baileys error: ${response.status} [${body.code ?: "UNKNOWN"}] ${body.error}"
+        } else {
+            "Baileys error: ${response.status}"
+        }
+    }
+
     private fun formatPhoneNumber(number: String): String {
         // Remove all non-digit characters
         val digits = number.replace(Regex("[^0-9]"), "")
@@ -120,14 +234,34 @@ private data class SendTextRequest(
 @Serializable
 private data class SendAudioRequest(
     val to: String,
-    val audioPath: String
+    val audio: String // base64-encoded file, any format ffmpeg reads
 )
 
+enum class MediaKind(val path: String) {
+    IMAGE("image"),
+    VIDEO("video"),
+    DOCUMENT("document")
+}
+
 @Serializable
 private data class BaileysResponse(
     val success: Boolean,
     val messageId: String? = null,
-    val error: String? = null
+    val error: String? = null,
+    val code: String? = null
+)
+
+// Delivery lifecycle tracked by the sidecar: queued, sent, delivered, read or failed
+@Serializable
+data class MessageStatus(
+    val id: String,
+    val status: String,
+    val messageId: String? = null,
+    val attempts: Int = 0,
+    val error: String? = null,
+    val sentAt: String? = null,
+    val deliveredAt: String? = null,
+    val readAt: String? = null
 )
 
 @Serializable